@@ -0,0 +1,140 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+
+// ============================================================
+// ROLES & CALLER CONTEXT
+// ============================================================
+export type Role = "owner" | "trader" | "viewer" | "blocked";
+
+export const ROLES: Role[] = ["owner", "trader", "viewer", "blocked"];
+
+export interface Caller {
+  userId: string;
+  chatId: string;
+  name: string;
+  role: Role;
+}
+
+// The Telegram user behind the update currently being handled. Skills call
+// executeAction deep inside aibingwa.processMessage, so the caller is carried
+// through the async chain instead of being passed as an argument.
+export const callerContext = new AsyncLocalStorage<Caller>();
+
+export function getCaller(): Caller | undefined {
+  return callerContext.getStore();
+}
+
+// AgentKit actions that move funds out of (or spend on behalf of) the wallet
+export const VALUE_MOVING_ACTIONS = new Set([
+  "WalletActionProvider_native_transfer",
+  "ERC20ActionProvider_transfer",
+  "ERC20ActionProvider_approve",
+  "WethActionProvider_wrap_eth",
+  "WethActionProvider_unwrap_eth",
+  "CdpSmartWalletActionProvider_swap",
+  "CdpSmartWalletActionProvider_use_spend_permission",
+]);
+
+export function isValueMovingAction(actionName: string): boolean {
+  return VALUE_MOVING_ACTIONS.has(actionName);
+}
+
+/** Pyth price reads: no wallet involved, so any chat may run them. */
+export function isPriceFeedAction(actionName: string): boolean {
+  return actionName.startsWith("PythActionProvider_");
+}
+
+export function canMoveFunds(role: Role): boolean {
+  return role === "owner" || role === "trader";
+}
+
+export function isRole(value: string): value is Role {
+  return (ROLES as string[]).includes(value);
+}
+
+// ============================================================
+// ACCESS CONTROL LIST
+// ============================================================
+export interface UserRecord {
+  role: Role;
+  name?: string;
+  grantedBy?: string;
+  updatedAt: string;
+}
+
+export class AccessControl {
+  private users: Record<string, UserRecord> = {};
+
+  constructor(
+    private readonly file: string,
+    private readonly ownerId?: string,
+    private readonly defaultRole: Role = "viewer",
+  ) {
+    this.load();
+  }
+
+  getRole(userId: string): Role {
+    if (this.ownerId && userId === this.ownerId) return "owner";
+    return this.users[userId]?.role ?? this.defaultRole;
+  }
+
+  isOwner(userId: string): boolean {
+    return this.getRole(userId) === "owner";
+  }
+
+  grant(userId: string, role: Role, grantedBy: string, name?: string): void {
+    if (this.ownerId && userId === this.ownerId) {
+      throw new Error("The owner set by OWNER_CHAT_ID cannot be changed");
+    }
+    this.users[userId] = {
+      role,
+      name: name ?? this.users[userId]?.name,
+      grantedBy,
+      updatedAt: new Date().toISOString(),
+    };
+    this.save();
+  }
+
+  revoke(userId: string): boolean {
+    if (this.ownerId && userId === this.ownerId) {
+      throw new Error("The owner set by OWNER_CHAT_ID cannot be revoked");
+    }
+    if (!this.users[userId]) return false;
+    delete this.users[userId];
+    this.save();
+    return true;
+  }
+
+  list(): Array<{ userId: string } & UserRecord> {
+    const entries = Object.entries(this.users).map(([userId, record]) => ({ userId, ...record }));
+    if (this.ownerId && !this.users[this.ownerId]) {
+      entries.unshift({ userId: this.ownerId, role: "owner", name: "OWNER_CHAT_ID", updatedAt: "" });
+    }
+    return entries;
+  }
+
+  getDefaultRole(): Role {
+    return this.defaultRole;
+  }
+
+  private load(): void {
+    try {
+      if (existsSync(this.file)) {
+        this.users = JSON.parse(readFileSync(this.file, "utf-8"));
+        console.log(`🔐 Loaded ${Object.keys(this.users).length} user role(s)`);
+      }
+    } catch (err) {
+      console.error("Failed to load user roles:", err);
+    }
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(this.file, JSON.stringify(this.users, null, 2));
+    } catch (err) {
+      console.error("Failed to save user roles:", err);
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import { extractTxHash } from "./audit.js";
+
+// ============================================================
+// ACTION RESULTS — typed outcomes, timeouts, retries
+// ============================================================
+export type ActionErrorKind =
+  | "not-found"
+  | "timeout"
+  | "insufficient-funds"
+  | "reverted"
+  | "rpc"
+  | "denied"
+  | "aborted"
+  | "unknown";
+
+export type ActionResult =
+  | { ok: true; output: string; txHash?: string; attempts: number }
+  | { ok: false; kind: ActionErrorKind; message: string; txHash?: string; attempts: number };
+
+/** The part of AgentKit the bot uses, so an in-memory fake can stand in for it. */
+export interface ActionSource {
+  getActions(): Array<{ name: string; invoke: (args: any) => Promise<string> | string }>;
+}
+
+export interface ActionOptions {
+  /** Overrides the configured timeout for this call. */
+  timeoutMs?: number;
+  /** Aborts the wait (the underlying AgentKit call cannot be cancelled once sent). */
+  signal?: AbortSignal;
+  /** Retries for timeout/RPC failures. Only honoured for read-only actions. */
+  retries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+// Swaps wait for a quote and a user operation receipt, so they get longer
+const BUILTIN_TIMEOUTS: Record<string, number> = {
+  CdpSmartWalletActionProvider_swap: 60_000,
+  PythActionProvider_fetch_price: 10_000,
+};
+
+/** Parses ACTION_TIMEOUTS, e.g. "CdpSmartWalletActionProvider_swap=90000,PythActionProvider_fetch_price=5000". */
+export function parseActionTimeouts(spec: string | undefined): Record<string, number> {
+  const timeouts: Record<string, number> = { ...BUILTIN_TIMEOUTS };
+  for (const pair of (spec ?? "").split(",")) {
+    const [name, ms] = pair.split("=").map((p) => p.trim());
+    if (name && Number(ms) > 0) timeouts[name] = Number(ms);
+  }
+  return timeouts;
+}
+
+const ACTION_TIMEOUTS = parseActionTimeouts(process.env.ACTION_TIMEOUTS);
+
+export function getActionTimeout(actionName: string): number {
+  return ACTION_TIMEOUTS[actionName] ?? (Number(process.env.ACTION_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS);
+}
+
+export function classifyError(message: string): ActionErrorKind {
+  if (/insufficient (funds|balance)|exceeds balance|amount exceeds/i.test(message)) return "insufficient-funds";
+  if (/revert|UserOperation (failed|reverted)|status: reverted/i.test(message)) return "reverted";
+  if (/fetch failed|ECONNRESET|ETIMEDOUT|ENOTFOUND|socket hang up|HTTP request failed|status (429|5\d\d)|rate limit|network error/i.test(message)) {
+    return "rpc";
+  }
+  if (/timeout|timed out/i.test(message)) return "timeout";
+  return "unknown";
+}
+
+export function actionError(kind: ActionErrorKind, message: string, attempts = 0): ActionResult {
+  return { ok: false, kind, message, txHash: extractTxHash(message), attempts };
+}
+
+// Failures that happen before anything is sent: unknown action, refused, or rejected by the balance check
+const PRE_BROADCAST_FAILURES: ActionErrorKind[] = ["not-found", "denied", "insufficient-funds"];
+
+/** True when the action failed before anything could reach the chain. A timeout or RPC error may still land. */
+export function failedBeforeBroadcast(result: ActionResult): boolean {
+  return !result.ok && PRE_BROADCAST_FAILURES.includes(result.kind);
+}
+
+class ActionTimeoutError extends Error {}
+class ActionAbortedError extends Error {}
+
+// Races one invocation against its timeout and the caller's signal, always clearing the timer
+async function invokeOnce(
+  invoke: () => Promise<unknown>,
+  actionName: string,
+  timeoutMs: number,
+  signal?: AbortSignal,
+): Promise<unknown> {
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+  try {
+    return await Promise.race([
+      invoke(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new ActionTimeoutError(`Action timeout (${Math.round(timeoutMs / 1000)}s)`)), timeoutMs);
+      }),
+      new Promise((_, reject) => {
+        if (!signal) return;
+        onAbort = () => reject(new ActionAbortedError(`${actionName} aborted`));
+        if (signal.aborted) onAbort();
+        else signal.addEventListener("abort", onAbort, { once: true });
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Runs an AgentKit action and returns a typed result. AgentKit reports many
+ * failures as strings starting with "Error", so those are classified as
+ * errors too.
+ */
+export async function runAction(
+  agent: ActionSource,
+  actionName: string,
+  args: Record<string, any>,
+  readOnly: boolean,
+  options: ActionOptions = {},
+): Promise<ActionResult> {
+  const action = agent.getActions().find((a) => a.name === actionName);
+  if (!action) return actionError("not-found", `Action "${actionName}" not found.`);
+
+  const timeoutMs = options.timeoutMs ?? getActionTimeout(actionName);
+  const retries = readOnly ? options.retries ?? (Number(process.env.ACTION_RETRIES) || 2) : 0;
+
+  let last: ActionResult = actionError("unknown", "Action did not run");
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    try {
+      const raw = await invokeOnce(() => Promise.resolve(action.invoke(args)), actionName, timeoutMs, options.signal);
+      const output = typeof raw === "string" ? raw : JSON.stringify(raw, null, 2);
+      if (/^Error\b/.test(output)) {
+        last = actionError(classifyError(output), output.replace(/^Error:?\s*/, ""), attempt);
+      } else {
+        return { ok: true, output, txHash: extractTxHash(output), attempts: attempt };
+      }
+    } catch (error: any) {
+      if (error instanceof ActionAbortedError) return actionError("aborted", error.message, attempt);
+      const kind = error instanceof ActionTimeoutError ? "timeout" : classifyError(error?.message ?? String(error));
+      last = actionError(kind, error?.message ?? String(error), attempt);
+    }
+
+    if (last.ok || (last.kind !== "timeout" && last.kind !== "rpc") || attempt > retries) break;
+    const delay = 500 * 2 ** (attempt - 1);
+    console.log(`🔁 Retrying ${actionName} in ${delay}ms (${last.kind})`);
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    if (options.signal?.aborted) return actionError("aborted", `${actionName} aborted`, attempt);
+  }
+  return last;
+}
+
+/** The string form the package skills expect: output on success, "Error: ..." otherwise. */
+export function resultToString(result: ActionResult): string {
+  if (result.ok) return result.output;
+  if (result.kind === "not-found") return result.message;
+  return `Error: ${result.message}`;
+}
+
+const ERROR_LABELS: Record<ActionErrorKind, string> = {
+  "not-found": "Unknown action",
+  timeout: "Timed out",
+  "insufficient-funds": "Insufficient funds",
+  reverted: "Transaction reverted",
+  rpc: "Network/RPC error",
+  denied: "Not allowed",
+  aborted: "Cancelled",
+  unknown: "Failed",
+};
+
+/** One-line status plus details, for confirmation messages and direct replies. */
+export function formatActionResult(result: ActionResult): string {
+  if (result.ok) return `✅ Done\n${result.output}`;
+  const tx = result.txHash ? `\nTx: ${result.txHash}` : "";
+  return `❌ ${ERROR_LABELS[result.kind]}\n${result.message}${tx}`;
+}
@@ -0,0 +1,164 @@
+import { randomBytes } from "crypto";
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+
+// ============================================================
+// PRICE ALERTS
+// ============================================================
+export type AlertDirection = ">" | "<";
+export type AlertMode = "once" | "repeat";
+
+export interface PriceAlert {
+  id: string;
+  chatId: string;
+  symbol: string;
+  pythFeedId: string;
+  direction: AlertDirection;
+  threshold: number;
+  mode: AlertMode;
+  createdAt: string;
+  lastTriggeredAt?: number;
+}
+
+export interface AlertRequest {
+  symbol: string;
+  direction: AlertDirection;
+  threshold: number;
+  mode: AlertMode;
+}
+
+/** Parses "ETH > 4000", "sol < $120 repeat". Returns null when the text doesn't fit. */
+export function parseAlertRequest(text: string): AlertRequest | null {
+  const match = text.trim().match(/^(\S+)\s*([<>])\s*\$?([\d,]*\.?\d+)(?:\s+(once|repeat))?$/i);
+  if (!match) return null;
+  const threshold = parseFloat(match[3].replace(/,/g, ""));
+  if (!Number.isFinite(threshold) || threshold <= 0) return null;
+  return {
+    symbol: match[1],
+    direction: match[2] as AlertDirection,
+    threshold,
+    mode: (match[4]?.toLowerCase() as AlertMode) || "once",
+  };
+}
+
+export class AlertStore {
+  private alerts: PriceAlert[] = [];
+
+  constructor(private readonly file: string, readonly maxPerChat = 20) {
+    try {
+      if (existsSync(file)) {
+        this.alerts = JSON.parse(readFileSync(file, "utf-8"));
+        console.log(`🔔 Loaded ${this.alerts.length} price alert(s)`);
+      }
+    } catch (err) {
+      console.error("Failed to load price alerts:", err);
+    }
+  }
+
+  /** Stores the alert, or returns null when its chat already has `maxPerChat` alerts. */
+  add(alert: Omit<PriceAlert, "id" | "createdAt">): PriceAlert | null {
+    if (this.forChat(alert.chatId).length >= this.maxPerChat) return null;
+    const created: PriceAlert = { ...alert, id: randomBytes(3).toString("hex"), createdAt: new Date().toISOString() };
+    this.alerts.push(created);
+    this.save();
+    return created;
+  }
+
+  remove(chatId: string, id: string): boolean {
+    const before = this.alerts.length;
+    this.alerts = this.alerts.filter((a) => !(a.id === id && a.chatId === chatId));
+    if (this.alerts.length === before) return false;
+    this.save();
+    return true;
+  }
+
+  forChat(chatId: string): PriceAlert[] {
+    return this.alerts.filter((a) => a.chatId === chatId);
+  }
+
+  all(): PriceAlert[] {
+    return [...this.alerts];
+  }
+
+  markTriggered(alert: PriceAlert): void {
+    if (alert.mode === "once") {
+      this.alerts = this.alerts.filter((a) => a.id !== alert.id);
+    } else {
+      alert.lastTriggeredAt = Date.now();
+    }
+    this.save();
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(this.file, JSON.stringify(this.alerts, null, 2));
+    } catch (err) {
+      console.error("Failed to save price alerts:", err);
+    }
+  }
+}
+
+// ============================================================
+// POLLER
+// ============================================================
+export interface AlertPollerOptions {
+  intervalMs: number;
+  cooldownMs: number;
+  fetchPrice: (pythFeedId: string) => Promise<number | null>;
+  notify: (chatId: string, message: string) => Promise<void>;
+}
+
+export function formatAlert(alert: PriceAlert): string {
+  return `${alert.symbol} ${alert.direction} $${alert.threshold.toLocaleString("en-US")}` +
+    (alert.mode === "repeat" ? " (repeat)" : "");
+}
+
+/** Checks every alert once. Prices are fetched once per feed. */
+export async function checkAlerts(store: AlertStore, options: AlertPollerOptions): Promise<void> {
+  const alerts = store.all();
+  if (alerts.length === 0) return;
+
+  const prices = new Map<string, number | null>();
+  for (const feedId of new Set(alerts.map((a) => a.pythFeedId))) {
+    prices.set(feedId, await options.fetchPrice(feedId).catch(() => null));
+  }
+
+  for (const alert of alerts) {
+    const price = prices.get(alert.pythFeedId);
+    if (price === null || price === undefined) continue;
+    const crossed = alert.direction === ">" ? price > alert.threshold : price < alert.threshold;
+    if (!crossed) continue;
+    if (alert.lastTriggeredAt && Date.now() - alert.lastTriggeredAt < options.cooldownMs) continue;
+
+    console.log(`🔔 Alert ${alert.id} triggered: ${formatAlert(alert)} at $${price}`);
+    try {
+      await options.notify(
+        alert.chatId,
+        `🔔 Price alert: ${alert.symbol} is $${price.toLocaleString("en-US")}\n` +
+        `Condition: ${formatAlert(alert)}` +
+        (alert.mode === "once" ? "\nThis alert has been removed." : ""),
+      );
+      store.markTriggered(alert);
+    } catch (err) {
+      console.error(`Failed to deliver alert ${alert.id}:`, err);
+    }
+  }
+}
+
+export function startAlertPoller(store: AlertStore, options: AlertPollerOptions): NodeJS.Timeout {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await checkAlerts(store, options);
+    } catch (err) {
+      console.error("Alert poller error:", err);
+    } finally {
+      running = false;
+    }
+  }, options.intervalMs);
+  timer.unref();
+  return timer;
+}
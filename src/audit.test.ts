@@ -0,0 +1,23 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AuditEntry, toCsv } from "./audit.js";
+
+function entry(overrides: Partial<AuditEntry>): AuditEntry {
+  return { ts: "2026-01-01T00:00:00.000Z", action: "ERC20ActionProvider_transfer", args: {}, ok: true, result: "done", durationMs: 0, ...overrides };
+}
+
+describe("toCsv", () => {
+  it("keeps cells that look like formulas as text", () => {
+    const [, row] = toCsv([entry({ userName: "=HYPERLINK(\"http://x\")", result: "+1", chatId: "-100123", token: "@SUM" })]).split("\n");
+    assert.match(row, /"'=HYPERLINK\(""http:\/\/x""\)"/);
+    assert.match(row, /,'\+1$/);
+    assert.match(row, /,'-100123,/);
+    assert.match(row, /,'@SUM,/);
+  });
+
+  it("leaves numbers and plain text alone", () => {
+    const [, row] = toCsv([entry({ userName: "alice", amount: 5 })]).split("\n");
+    assert.match(row, /,alice,/);
+    assert.match(row, /,5,/);
+  });
+});
@@ -0,0 +1,103 @@
+import { appendFileSync, readFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+
+// ============================================================
+// AUDIT LOG — one JSON line per executeAction call or refused attempt
+// ============================================================
+export interface AuditEntry {
+  ts: string;
+  action: string;
+  args: Record<string, any>;
+  chatId?: string;
+  userId?: string;
+  userName?: string;
+  ok: boolean;
+  /** Refused by a role, group or spending policy check; nothing was sent. */
+  denied?: boolean;
+  result: string;
+  durationMs: number;
+  txHash?: string;
+  token?: string;
+  amount?: number;
+}
+
+export interface AuditFilter {
+  /** Only entries requested from this chat. */
+  chatId?: string;
+  action?: string;
+  token?: string;
+  valueMovingOnly?: boolean;
+}
+
+const MAX_RESULT_LENGTH = 2000;
+
+export function extractTxHash(result: string): string | undefined {
+  return result.match(/0x[a-fA-F0-9]{64}/)?.[0];
+}
+
+export class AuditLog {
+  constructor(
+    private readonly file: string,
+    private readonly isValueMoving: (action: string) => boolean,
+  ) {}
+
+  record(entry: Omit<AuditEntry, "ts" | "txHash">): void {
+    const line: AuditEntry = {
+      ts: new Date().toISOString(),
+      ...entry,
+      result: entry.result.slice(0, MAX_RESULT_LENGTH),
+      txHash: extractTxHash(entry.result),
+    };
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      appendFileSync(this.file, JSON.stringify(line) + "\n");
+    } catch (err) {
+      console.error("Failed to write audit log:", err);
+    }
+  }
+
+  read(filter: AuditFilter = {}): AuditEntry[] {
+    if (!existsSync(this.file)) return [];
+    const entries: AuditEntry[] = [];
+    for (const line of readFileSync(this.file, "utf-8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // A torn final line from a crash mid-write; skip it
+      }
+    }
+    const action = filter.action?.toLowerCase();
+    const token = filter.token?.toUpperCase();
+    return entries.filter((e) =>
+      (!filter.chatId || e.chatId === filter.chatId) &&
+      (!filter.valueMovingOnly || this.isValueMoving(e.action)) &&
+      (!action || e.action.toLowerCase().includes(action)) &&
+      (!token || e.token === token),
+    );
+  }
+}
+
+// A text cell starting with = + - @ (or a tab or CR) is read as a formula by spreadsheets; a
+// leading ' keeps it text. Names and args come from chat users, so this matters for /export
+function csvField(value: unknown): string {
+  let text = value === undefined || value === null ? "" : typeof value === "string" ? value : JSON.stringify(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(entries: AuditEntry[]): string {
+  const columns: Array<keyof AuditEntry> = [
+    "ts", "action", "userId", "userName", "chatId", "ok", "denied", "token", "amount", "txHash", "durationMs", "args", "result",
+  ];
+  const rows = entries.map((e) => columns.map((c) => csvField(e[c])).join(","));
+  return [columns.join(","), ...rows].join("\n") + "\n";
+}
+
+export function formatAuditEntry(entry: AuditEntry): string {
+  const when = entry.ts.replace("T", " ").slice(0, 16);
+  const amount = entry.amount !== undefined && entry.token ? ` ${entry.amount} ${entry.token}` : "";
+  const who = entry.userName ?? entry.userId ?? "system";
+  const tx = entry.txHash ? `\n   tx ${entry.txHash}` : "";
+  return `${entry.ok ? "✅" : entry.denied ? "⛔" : "❌"} ${when} ${entry.action.replace(/^\w+ActionProvider_/, "")}${amount} — ${who} (${entry.durationMs}ms)${tx}`;
+}
@@ -0,0 +1,300 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createBot, BotDeps, BotInstance } from "./bot.js";
+import {
+  callbackUpdate,
+  createFakeAgent,
+  createFakeAgentKit,
+  createFakeChainClient,
+  createFakeEnsClient,
+  createFakeTelegram,
+  FakeAgentKit,
+  FakeSkill,
+  FakeTelegram,
+  textUpdate,
+  waitForIdle,
+} from "./fakes.js";
+import { NETWORKS } from "./network.js";
+import { loadTokenRegistry, resolveToken, tokenRegistryFile } from "./tokens.js";
+
+const OWNER = 1001;
+const VIEWER = 2002;
+const RECIPIENT = "0x2222222222222222222222222222222222222222";
+const TX_HASH = `0x${"ab".repeat(32)}`;
+
+interface Harness {
+  instance: BotInstance;
+  telegram: FakeTelegram;
+  agentKit: FakeAgentKit;
+  agent: ReturnType<typeof createFakeAgent>;
+  chain: ReturnType<typeof createFakeChainClient>;
+  /** Handles one update and waits for the chat queues to drain; returns what the bot sent meanwhile. */
+  send: (update: ReturnType<typeof textUpdate>) => Promise<string[]>;
+}
+
+const dataDirs: string[] = [];
+
+function startBot(options: {
+  agent?: ReturnType<typeof createFakeAgent>;
+  registerSkills?: BotDeps["registerSkills"];
+  ensRecords?: Record<string, string>;
+} = {}): Harness {
+  const dataDir = mkdtempSync(join(tmpdir(), "bingwa-test-"));
+  dataDirs.push(dataDir);
+  const network = NETWORKS["base-sepolia"];
+  loadTokenRegistry(tokenRegistryFile(dataDir, network.id), network.id);
+  const telegram = createFakeTelegram();
+  const agentKit = createFakeAgentKit({
+    ERC20ActionProvider_transfer: (args) => `Transferred ${args.amount} to ${args.destinationAddress}.\nTransaction hash: ${TX_HASH}`,
+  });
+  const agent = options.agent ?? createFakeAgent();
+  const chain = createFakeChainClient({ ethBalance: 2n * 10n ** 18n });
+  const instance = createBot({
+    network,
+    dataDir,
+    agentKit,
+    clients: { chain, ens: createFakeEnsClient(options.ensRecords) },
+    createAgent: () => agent,
+    registerSkills: options.registerSkills ?? (() => {}),
+    telegram,
+  });
+  const send = async (update: ReturnType<typeof textUpdate>) => {
+    const before = telegram.sentTexts().length;
+    await instance.bot.handleUpdate(update);
+    await waitForIdle(instance);
+    return telegram.sentTexts().slice(before);
+  };
+  return { instance, telegram, agentKit, agent, chain, send };
+}
+
+// The confirm:<id> button of the last confirmation prompt
+function confirmButton(telegram: FakeTelegram, choice: "confirm" | "cancel"): { data: string; messageId: number } {
+  const index = telegram.calls.findLastIndex((c) => c.method === "sendMessage" && c.payload.reply_markup);
+  const buttons: Array<{ callback_data: string }> = telegram.calls[index].payload.reply_markup.inline_keyboard.flat();
+  const data = buttons.find((b) => b.callback_data.startsWith(`${choice}:`))!.callback_data;
+  // The fake numbers sent messages from 1 in order
+  const messageId = telegram.calls.slice(0, index + 1).filter((c) => c.method.startsWith("send")).length;
+  return { data, messageId };
+}
+
+before(() => {
+  process.env.OWNER_CHAT_ID = String(OWNER);
+});
+
+after(() => {
+  for (const dir of dataDirs) rmSync(dir, { recursive: true, force: true });
+});
+
+describe("commands", () => {
+  it("/help lists the commands", async () => {
+    const { send } = startBot();
+    const [help] = await send(textUpdate("/help"));
+    assert.match(help, /AIBINGWA Bot Commands/);
+    assert.match(help, /\/balance/);
+  });
+
+  it("/language rejects names that aren't languages", async () => {
+    const { send } = startBot();
+    const [refusal] = await send(textUpdate("/language constructor"));
+    assert.match(refusal, /constructor\?/);
+    const [help] = await send(textUpdate("/help"));
+    assert.match(help, /AIBINGWA Bot Commands/);
+  });
+
+  it("/balance shows the portfolio", async () => {
+    const { send } = startBot();
+    const sent = await send(textUpdate("/balance"));
+    assert.match(sent[0], /Checking balances/);
+    assert.match(sent[1], /ETH/);
+    assert.match(sent[1], /\$6,000/);
+  });
+
+  it("/alert refuses alerts past the per-chat cap", async () => {
+    process.env.MAX_ALERTS_PER_CHAT = "2";
+    const { send } = startBot();
+    delete process.env.MAX_ALERTS_PER_CHAT;
+    await send(textUpdate("/alert ETH > 4000"));
+    await send(textUpdate("/alert ETH < 2000"));
+    const [refusal] = await send(textUpdate("/alert ETH > 5000"));
+    assert.match(refusal, /already has 2 price alerts/);
+    const [list] = await send(textUpdate("/alerts"));
+    assert.doesNotMatch(list, /5,000/);
+  });
+});
+
+describe("text handler", () => {
+  it("hands free text to the agent with the language hint", async () => {
+    const { send, agent } = startBot();
+    const [response] = await send(textUpdate("tell me something about base"));
+    assert.equal(agent.messages.length, 1);
+    assert.match(agent.messages[0].text, /^\[Reply in English\] tell me something about base$/);
+    assert.match(response, /echo: /);
+  });
+
+  it("answers a balance question without the agent", async () => {
+    const { send, agent } = startBot();
+    const [response] = await send(textUpdate("my eth balance"));
+    assert.match(response, /ETH: 2\.0+$/);
+    assert.equal(agent.messages.length, 0);
+  });
+
+  it("reports a failed balance lookup instead of a zero balance", async () => {
+    const { send, chain } = startBot();
+    Object.assign(chain, { getBalance: async () => { throw new Error("HTTP request failed"); } });
+    const [response] = await send(textUpdate("my eth balance"));
+    assert.match(response, /Couldn't look up your ETH balance/);
+    assert.doesNotMatch(response, /ETH: 0/);
+  });
+});
+
+describe("confirmations", () => {
+  it("runs a send only after Confirm", async () => {
+    const { send, telegram, agentKit } = startBot();
+    const [prompt] = await send(textUpdate(`send 5 usdc to ${RECIPIENT}`));
+    assert.match(prompt, /5 USDC/);
+    assert.ok(!agentKit.calls.some((c) => c.name === "ERC20ActionProvider_transfer"));
+
+    const { data, messageId } = confirmButton(telegram, "confirm");
+    const edits = await send(callbackUpdate(data, { messageId }));
+    const transfers = agentKit.calls.filter((c) => c.name === "ERC20ActionProvider_transfer");
+    assert.equal(transfers.length, 1);
+    assert.equal(transfers[0].args.destinationAddress.toLowerCase(), RECIPIENT);
+    assert.match(edits.at(-1)!, /Done/);
+  });
+
+  it("does nothing on Cancel", async () => {
+    const { send, telegram, agentKit } = startBot();
+    await send(textUpdate(`send 5 usdc to ${RECIPIENT}`));
+    const { data, messageId } = confirmButton(telegram, "cancel");
+    const edits = await send(callbackUpdate(data, { messageId }));
+    assert.ok(!agentKit.calls.some((c) => c.name === "ERC20ActionProvider_transfer"));
+    assert.match(edits.at(-1)!, /Cancelled/);
+  });
+
+  it("refuses viewers and records the attempt", async () => {
+    const { send, agentKit } = startBot();
+    const [refusal] = await send(textUpdate(`send 5 usdc to ${RECIPIENT}`, { userId: VIEWER }));
+    assert.match(refusal, /Permission denied/);
+    assert.ok(!agentKit.calls.some((c) => c.name === "ERC20ActionProvider_transfer"));
+
+    const [history] = await send(textUpdate("/history"));
+    assert.match(history, /⛔.*transfer 5 USDC/);
+  });
+
+  it("flags a changed ENS record against the last send that went through", async () => {
+    const first = "0x3333333333333333333333333333333333333333";
+    const second = "0x4444444444444444444444444444444444444444";
+    const ensRecords: Record<string, string> = { "bob.eth": first };
+    process.env.NAME_CACHE_SECONDS = "0";
+    const { send, telegram } = startBot({ ensRecords });
+    delete process.env.NAME_CACHE_SECONDS;
+
+    await send(textUpdate("send 5 usdc to bob.eth"));
+    const cancel = confirmButton(telegram, "cancel");
+    await send(callbackUpdate(cancel.data, { messageId: cancel.messageId }));
+
+    // A cancelled send leaves no baseline, so the new record isn't flagged yet
+    ensRecords["bob.eth"] = second;
+    const [unflagged] = await send(textUpdate("send 5 usdc to bob.eth"));
+    assert.doesNotMatch(unflagged, /Was 0x/);
+    const confirm = confirmButton(telegram, "confirm");
+    await send(callbackUpdate(confirm.data, { messageId: confirm.messageId }));
+
+    ensRecords["bob.eth"] = first;
+    const [flagged] = await send(textUpdate("send 5 usdc to bob.eth"));
+    assert.match(flagged, new RegExp(`Was ${second} at your last send`));
+  });
+});
+
+describe("skill toggles", () => {
+  it("stops a skill turned off in the chat from running", async () => {
+    const skills: FakeSkill[] = [];
+    // Plays an agent that runs the skill whatever the hint says
+    const agent = createFakeAgent(() => {
+      try {
+        return skills.find((s) => s.name === "fake_swap")!.run!();
+      } catch (err: any) {
+        return `failed: ${err.message}`;
+      }
+    }, skills);
+    const { send } = startBot({
+      agent,
+      registerSkills: (registry: object) => {
+        (registry as { register: (skill: FakeSkill) => void }).register({ name: "fake_swap", category: "trading", run: () => "swapped" });
+      },
+    });
+
+    const [allowed] = await send(textUpdate("swap something"));
+    assert.equal(allowed, "swapped");
+
+    await send(callbackUpdate("skills:ts:0"));
+    const [refused] = await send(textUpdate("swap something"));
+    assert.match(refused, /failed: The fake_swap skill is turned off in this chat/);
+    assert.ok(skills.some((s) => s.name === "fake_swap"), "the skill is still listed in /skills");
+  });
+
+  it("/skills shows the toggle and answers a viewer's tap with a refusal", async () => {
+    const { send, telegram } = startBot();
+    const [overview] = await send(textUpdate("/skills"));
+    assert.match(overview, /Available Skills \(1 total\)/);
+
+    const [detail] = await send(callbackUpdate("skills:s:0", { messageId: 1 }));
+    assert.match(detail, /Status: on/);
+    const [off] = await send(callbackUpdate("skills:ts:0", { messageId: 1 }));
+    assert.match(off, /Status: turned off in this chat/);
+    const [on] = await send(callbackUpdate("skills:ts:0", { messageId: 1 }));
+    assert.match(on, /Status: on/);
+
+    assert.deepEqual(await send(callbackUpdate("skills:ts:0", { userId: VIEWER, messageId: 1 })), []);
+    const answer = telegram.calls.findLast((c) => c.method === "answerCallbackQuery")!;
+    assert.match(answer.payload.text, /Only the owner can turn skills on or off/);
+  });
+});
+
+describe("skill actions", () => {
+  // A skill that sends 5 USDC (or whatever the message says) through the executeAction it was handed
+  function startWithSendingSkill() {
+    let executeAction: (actionName: string, args?: Record<string, any>) => Promise<string>;
+    const agent = createFakeAgent((_chatId, _user, text) => executeAction("ERC20ActionProvider_transfer", {
+      amount: text.match(/(\d+(?:\.\d+)?)$/)?.[1] ?? "5",
+      tokenAddress: resolveToken("usdc")!.address,
+      destinationAddress: RECIPIENT,
+    }));
+    return startBot({
+      agent,
+      registerSkills: (_registry: object, deps: { executeAction: typeof executeAction }) => {
+        executeAction = deps.executeAction;
+      },
+    });
+  }
+
+  it("refuses a viewer before anything is prompted or sent", async () => {
+    const { send, agentKit } = startWithSendingSkill();
+    const [refusal] = await send(textUpdate("pay them", { userId: VIEWER }));
+    assert.match(refusal, /Permission denied/);
+    assert.equal(agentKit.calls.filter((c) => c.name === "ERC20ActionProvider_transfer").length, 0);
+  });
+
+  it("refuses a send over the spending policy without prompting", async () => {
+    const { send, telegram } = startWithSendingSkill();
+    await send(textUpdate("/limits maxtx usdc 1"));
+    const [refusal] = await send(textUpdate("pay them 5"));
+    assert.match(refusal, /Spending policy/);
+    assert.ok(!telegram.calls.some((c) => c.payload.reply_markup?.inline_keyboard?.flat().some((b: { callback_data: string }) => b.callback_data.startsWith("confirm:"))));
+  });
+
+  it("parks an allowed send behind a confirmation prompt", async () => {
+    const { send, telegram, agentKit } = startWithSendingSkill();
+    const sent = await send(textUpdate("pay them 0.5"));
+    assert.match(sent[0], /Send[\s\S]*0\.5 USDC/);
+    assert.match(sent.at(-1)!, /Awaiting user confirmation/);
+    assert.equal(agentKit.calls.filter((c) => c.name === "ERC20ActionProvider_transfer").length, 0);
+
+    const { data, messageId } = confirmButton(telegram, "confirm");
+    await send(callbackUpdate(data, { messageId }));
+    assert.equal(agentKit.calls.filter((c) => c.name === "ERC20ActionProvider_transfer").length, 1);
+  });
+});
@@ -0,0 +1,1591 @@
+import { Bot, Context, InlineKeyboard, InputFile, session, SessionFlavor, Transformer } from "grammy";
+import type { InlineQueryResultArticle, UserFromGetMe } from "grammy/types";
+import { formatUnits, isAddress, getAddress } from "viem";
+import { join } from "path";
+import type { AgentBingwa, registerAllSkills } from "aibingwa-agent";
+import {
+  AccessControl,
+  callerContext,
+  getCaller,
+  isValueMovingAction,
+  isPriceFeedAction,
+  canMoveFunds,
+  isRole,
+  ROLES,
+} from "./access.js";
+import { ConfirmationQueue, describeAction } from "./confirm.js";
+import { SpendingPolicy, withPolicy, parseValueMovement, policyTokenKey } from "./policy.js";
+import { getRandomResponse, parseNaturalLanguage, ParsedIntent } from "./parser.js";
+import {
+  TOKEN_REGISTRY,
+  ERC20_ABI,
+  resolveToken,
+  addToken,
+  removeToken,
+  tokenRegistryFile,
+  TokenReadClient,
+} from "./tokens.js";
+import { getPortfolio, formatPortfolio, parsePythPrice, PortfolioClient } from "./portfolio.js";
+import { AlertStore, parseAlertRequest, startAlertPoller, formatAlert } from "./alerts.js";
+import { AuditLog, toCsv, formatAuditEntry } from "./audit.js";
+import { NetworkConfig, writesAllowed } from "./network.js";
+import { metrics, timedRead, formatStats } from "./metrics.js";
+import { ChatQueue, Semaphore, RateLimiter } from "./queue.js";
+import { reply, sendRich, markdownToHtml } from "./render.js";
+import { ActionOptions, ActionResult, ActionSource, actionError, classifyError, failedBeforeBroadcast, runAction, resultToString, formatActionResult } from "./actions.js";
+import { NameResolver, ResolvedAddress, EnsClient } from "./names.js";
+import { ContactBook, Contact, isValidContactName, formatContact } from "./contacts.js";
+import { ScheduleStore, parseRecurrence, startScheduler, formatSchedule } from "./schedules.js";
+import { OwnWrite, OwnWrites, TransferClient, TransferCursor, startTransferWatcher } from "./transfers.js";
+import {
+  GroupSettingsStore,
+  GroupAdminCache,
+  isGroupChat,
+  isGroupChatId,
+  isAddressedToBot,
+  stripBotMention,
+  formatGroupSettings,
+} from "./groups.js";
+import {
+  SkillInfo,
+  SkillToggleStore,
+  SKILLS_PER_PAGE,
+  buildCatalog,
+  findSkill,
+  pageCount,
+  disabledSkillsHint,
+  guardSkillRegistry,
+} from "./skills.js";
+import { TtlCache, parseInlineQuery, priceResult, depositResult } from "./inline.js";
+import { MESSAGES, LANGUAGES, DEFAULT_LANGUAGE, Language, LanguageStore, parseLanguage, languageHint } from "./i18n.js";
+
+// ============================================================
+// SESSION & CONTEXT
+// ============================================================
+interface SessionData {
+  messageCount: number;
+}
+
+type MyContext = Context & SessionFlavor<SessionData>;
+
+// ============================================================
+// DEPENDENCIES — everything the bot talks to, so tests can pass fakes
+// ============================================================
+/** Reads the bot makes against the active chain. */
+export type ChainClient = TokenReadClient & PortfolioClient & TransferClient;
+
+/** A chat's own smart wallet in per-chat mode. */
+export interface ChatWallet {
+  agentKit: ActionSource;
+  address: string;
+}
+
+export interface ChatWallets {
+  /** The chat's wallet, or null until it has been created. */
+  get(chatId: string): Promise<ChatWallet | null>;
+  /** Creates the chat's wallet, or returns it if it already exists. */
+  create(chatId: string): Promise<ChatWallet>;
+}
+
+export interface BotDeps {
+  network: NetworkConfig;
+  dataDir: string;
+  /** AgentKit (or anything exposing the same actions) around the bot's wallet provider. */
+  agentKit: ActionSource;
+  /** The wallet address when it is already known, saving a get_wallet_details round trip. */
+  walletAddress?: string;
+  /**
+   * Per-chat mode: each chat acts on its own wallet, created on /start. The
+   * owner chat and background jobs keep using agentKit.
+   */
+  chatWallets?: ChatWallets;
+  clients: {
+    chain: ChainClient;
+    /** ENS and Basenames lookups, always against Ethereum mainnet. */
+    ens: EnsClient;
+  };
+  /** Builds the agent brain; onNotify delivers its messages to the owner chat. */
+  createAgent: (onNotify: (msg: string) => Promise<void>) => AgentBingwa;
+  /**
+   * The package's registerAllSkills. Passed in rather than imported so bot.ts
+   * loads without the package, e.g. under test with a no-op.
+   */
+  registerSkills: typeof registerAllSkills;
+  telegram: {
+    token: string;
+    /** Skips the getMe call on init when provided. */
+    botInfo?: UserFromGetMe;
+    /** Installed first on bot.api, e.g. an in-memory transport. */
+    transformer?: Transformer;
+  };
+}
+
+export interface BotInstance {
+  bot: Bot<MyContext>;
+  /** Runs an action with permission checks, metrics and audit logging. */
+  runAction: (actionName: string, args?: Record<string, any>, options?: ActionOptions) => Promise<ActionResult>;
+  /** String form of {@link BotInstance.runAction}, as handed to the skills. */
+  executeAction: (actionName: string, args?: Record<string, any>) => Promise<string>;
+  notifyOwner: (msg: string) => Promise<void>;
+  /** Starts the confirmation sweeper, price alert poller, scheduler and transfer watcher. */
+  startBackgroundJobs: () => void;
+  /** Updates being handled plus messages waiting in chat queues. */
+  pendingWork: () => { inFlight: number; queued: number };
+}
+
+interface WriteAction {
+  actionName: string;
+  args: Record<string, any>;
+  recipient?: Recipient;
+}
+
+type Recipient = ResolvedAddress & { contact?: Contact };
+
+type ActiveWallet = { agentKit: ActionSource; address?: string };
+
+const NO_WALLET = "This chat has no wallet yet — send /start to create one.";
+
+// ============================================================
+// FORMATTING HELPERS
+// ============================================================
+function formatBalanceResponse(balances: Array<{ symbol: string; balance: string }>): string {
+  const lines = ["💼 **Your Balances**\n"];
+  for (const b of balances) {
+    const bal = parseFloat(b.balance).toFixed(6);
+    lines.push(`${b.symbol}: ${bal}`);
+  }
+  return lines.join("\n");
+}
+
+function formatPriceResponse(symbol: string, priceData: string): string {
+  return `📊 **${symbol} Price**\n\n${priceData}`;
+}
+
+// ============================================================
+// BOT FACTORY
+// ============================================================
+export function createBot(deps: BotDeps): BotInstance {
+  const { network, dataDir } = deps;
+  const baseClient = deps.clients.chain;
+  const sharedWallet: ActiveWallet = { agentKit: deps.agentKit, address: deps.walletAddress };
+  // What the shared wallet sent, so the transfer watcher doesn't report the bot's own transactions
+  const ownWrites = new OwnWrites();
+  let inFlight = 0;
+  const backgroundJobs: Array<() => void> = [];
+
+  const tokensFile = tokenRegistryFile(dataDir, network.id);
+  const auditLog = new AuditLog(join(dataDir, "audit.jsonl"), isValueMovingAction);
+  const contacts = new ContactBook(join(dataDir, "contacts.json"));
+  const names = new NameResolver(
+    deps.clients.ens,
+    network.chain.id,
+    join(dataDir, "names.json"),
+    parseInt(process.env.NAME_CACHE_SECONDS || "300", 10) * 1000,
+  );
+
+  // The resolvers for describing an action, with its recipient already resolved: the action's
+  // args only carry the address, which has lost the name and any change since the last send
+  function describeResolvers(recipient?: Recipient) {
+    return {
+      resolveToken,
+      resolveAddress: async (input: string) =>
+        recipient && input.toLowerCase() === recipient.address.toLowerCase() ? recipient : resolveAddress(input),
+    };
+  }
+
+  // Contact names from the caller's chat take precedence over ENS and raw addresses
+  async function resolveAddress(input: string): Promise<Recipient> {
+    const chatId = getCaller()?.chatId;
+    const trimmed = input.trim().toLowerCase();
+    const contact = chatId && isValidContactName(trimmed) ? contacts.get(chatId, trimmed) : undefined;
+    if (contact) {
+      const display = `${contact.trusted ? "⭐ " : ""}${contact.name} (${contact.address.slice(0, 6)}...${contact.address.slice(-4)})`;
+      return { address: contact.address, display, name: contact.name, contact };
+    }
+
+    const resolved = await names.resolve(input);
+    const known = chatId && resolved.address ? contacts.findByAddress(chatId, resolved.address) : undefined;
+    if (!known) return resolved;
+    return { ...resolved, display: `${known.trusted ? "⭐ " : ""}${known.name} — ${resolved.display}`, contact: known };
+  }
+
+  // Turns a confident send/trade/wrap intent into the AgentKit action that carries it out.
+  // Returns null when the intent isn't specific enough, or an error message.
+  async function intentToAction(intent: ParsedIntent): Promise<WriteAction | string | null> {
+    switch (intent.action) {
+      case "send": {
+        const token = resolveToken(intent.token ?? "");
+        if (!token || !intent.amount || !intent.recipient) return null;
+        const recipient = await resolveAddress(intent.recipient);
+        if (!recipient.address) return `Could not resolve ${intent.recipient} to a valid address`;
+        if (token.symbol === "ETH") {
+          return { actionName: "WalletActionProvider_native_transfer", args: { to: recipient.address, value: intent.amount }, recipient };
+        }
+        if (!token.address) return null;
+        return {
+          actionName: "ERC20ActionProvider_transfer",
+          args: { amount: intent.amount, tokenAddress: token.address, destinationAddress: recipient.address },
+          recipient,
+        };
+      }
+      case "trade": {
+        const from = resolveToken(intent.fromToken ?? "");
+        const to = resolveToken(intent.toToken ?? "");
+        if (!from?.address || !to?.address || !intent.amount || from === to) return null;
+        return {
+          actionName: "CdpSmartWalletActionProvider_swap",
+          args: { fromToken: from.address, toToken: to.address, fromAmount: intent.amount },
+        };
+      }
+      case "wrap":
+        return intent.amount ? { actionName: "WethActionProvider_wrap_eth", args: { amountToWrap: intent.amount } } : null;
+      case "unwrap":
+        return intent.amount ? { actionName: "WethActionProvider_unwrap_eth", args: { amountToUnwrap: intent.amount } } : null;
+      default:
+        return null;
+    }
+  }
+
+  // Both throw when the read fails, so an RPC outage is never reported as a zero balance
+  async function getTokenBalance(tokenAddress: string, walletAddress: string, decimals: number): Promise<string> {
+    const balance = await timedRead("base", "getTokenBalance", () =>
+      baseClient.readContract({
+        address: tokenAddress as `0x${string}`,
+        abi: ERC20_ABI,
+        functionName: "balanceOf",
+        args: [walletAddress as `0x${string}`],
+      }),
+    );
+    return formatUnits(balance, decimals);
+  }
+
+  async function getEthBalance(walletAddress: string): Promise<string> {
+    const balance = await timedRead("base", "getEthBalance", () =>
+      baseClient.getBalance({ address: walletAddress as `0x${string}` }),
+    );
+    return formatUnits(balance, 18);
+  }
+
+  // Returns a denied result when the current caller may not run the action
+  async function checkPermission(actionName: string): Promise<ActionResult | null> {
+    if (!isValueMovingAction(actionName)) return null;
+    if (!writesAllowed(network)) {
+      return actionError("denied", `${network.name} writes are disabled. Set ALLOW_MAINNET_WRITES=true to enable ${actionName}.`);
+    }
+    const caller = getCaller();
+    if (caller && !canMoveFunds(caller.role)) {
+      console.log(`⛔ Denied ${actionName} for ${caller.name} (${caller.userId}, ${caller.role})`);
+      return actionError("denied", `Permission denied — ${caller.role} users cannot run ${actionName}. Ask the owner for trader access.`);
+    }
+    // In groups the role alone isn't enough: any member could otherwise spend the wallet
+    if (caller && isGroupChatId(caller.chatId)) {
+      if (groups.get(caller.chatId).wallet === "off") {
+        return actionError("denied", "Wallet actions are turned off in this group. An admin can enable them with /groupsettings wallet admins.");
+      }
+      if (!access.isOwner(caller.userId) && !(await groupAdmins.isAdmin(caller.chatId, caller.userId))) {
+        console.log(`⛔ Denied ${actionName} for non-admin ${caller.name} (${caller.userId}) in group ${caller.chatId}`);
+        return actionError("denied", `Permission denied — only group admins can run ${actionName} in this group.`);
+      }
+    }
+    return null;
+  }
+
+  // The wallet the current caller acts on: their chat's own wallet in per-chat mode,
+  // otherwise the shared one. Null when the chat hasn't created its wallet yet.
+  async function callerWallet(): Promise<ActiveWallet | null> {
+    const chatId = getCaller()?.chatId;
+    if (!deps.chatWallets || !chatId || chatId === process.env.OWNER_CHAT_ID) return sharedWallet;
+    return deps.chatWallets.get(chatId);
+  }
+
+  async function runOnCallerWallet(actionName: string, args: Record<string, any>, options: ActionOptions): Promise<ActionResult> {
+    let wallet: ActiveWallet | null;
+    try {
+      wallet = await callerWallet();
+    } catch (err: any) {
+      return actionError(classifyError(err.message ?? ""), `Could not load this chat's wallet: ${err.message}`);
+    }
+    // Price feeds don't touch the wallet, so they work before a chat has one
+    const source = wallet?.agentKit ?? (isPriceFeedAction(actionName) ? sharedWallet.agentKit : null);
+    if (!source) return actionError("denied", NO_WALLET);
+    // Expected before it is sent, so a transfer the watcher sees mid-action isn't reported as unexpected
+    let ownWrite: OwnWrite | undefined;
+    if (source === sharedWallet.agentKit && isValueMovingAction(actionName)) {
+      const movement = parseValueMovement(actionName, args, resolveToken);
+      ownWrite = ownWrites.record({ at: Date.now(), symbol: movement?.token, amount: movement?.amount, recipient: movement?.recipient });
+    }
+    const result = await runAction(source, actionName, args, !isValueMovingAction(actionName), options);
+    // Kept whatever else the outcome: a write that timed out may still land
+    if (failedBeforeBroadcast(result)) ownWrite?.drop();
+    else ownWrite?.settle(result.txHash);
+    return result;
+  }
+
+  // Runs an AgentKit action, records metrics and appends the outcome to the audit log
+  async function runRecordedAction(
+    actionName: string,
+    args: Record<string, any> = {},
+    options: ActionOptions = {},
+  ): Promise<ActionResult> {
+    const started = Date.now();
+    const result = (await checkPermission(actionName))
+      ?? await runOnCallerWallet(actionName, args, options);
+    const durationMs = Date.now() - started;
+    const outcome = result.ok ? "success" : result.kind === "timeout" ? "timeout" : "error";
+    metrics.actions.inc({ action: actionName, outcome });
+    metrics.actionDuration.observe({ action: actionName }, durationMs / 1000);
+    // The alert poller, the transfer watcher and inline queries fetch prices all day; those reads
+    // touch no wallet and would drown the log, so only failures of them are kept
+    if (!isPriceFeedAction(actionName) || !result.ok) recordAudit(actionName, args, result, durationMs);
+    return result;
+  }
+
+  // Refusals are recorded too — blocked attempts are what the audit trail is for
+  function recordAudit(actionName: string, args: Record<string, any>, result: ActionResult, durationMs = 0): void {
+    const caller = getCaller();
+    const movement = parseValueMovement(actionName, args, resolveToken);
+    auditLog.record({
+      action: actionName,
+      args,
+      chatId: caller?.chatId,
+      userId: caller?.userId,
+      userName: caller?.name,
+      ok: result.ok,
+      denied: !result.ok && result.kind === "denied" ? true : undefined,
+      result: resultToString(result),
+      durationMs,
+      token: movement?.token,
+      amount: movement?.amount,
+    });
+  }
+
+  // String form for the package skills and other text-only callers
+  async function executeAction(
+    actionName: string,
+    args: Record<string, any> = {}
+  ): Promise<string> {
+    return resultToString(await runRecordedAction(actionName, args));
+  }
+
+  async function getWalletAddress(): Promise<string> {
+    const wallet = await callerWallet();
+    if (!wallet) return "";
+    if (wallet.address) return wallet.address;
+    const result = await runRecordedAction("WalletActionProvider_get_wallet_details");
+    if (!result.ok) {
+      console.error(`Failed to read wallet details (${result.kind}): ${result.message}`);
+      return "";
+    }
+    const match = result.output.match(/Address:\s*(0x[a-fA-F0-9]{40})/) ?? result.output.match(/(0x[a-fA-F0-9]{40})/);
+    if (match) {
+      wallet.address = getAddress(match[1]);
+      return wallet.address;
+    }
+    return "";
+  }
+
+  // Create Telegram bot
+  const bot = new Bot<MyContext>(deps.telegram.token, { botInfo: deps.telegram.botInfo });
+  if (deps.telegram.transformer) bot.api.config.use(deps.telegram.transformer);
+
+  // Count failed Telegram sends for /metrics
+  bot.api.config.use(async (prev, method, payload, signal) => {
+    const isSend = method.startsWith("send") || method.startsWith("edit");
+    try {
+      const res = await prev(method, payload, signal);
+      if (isSend && !res.ok) metrics.telegramFailures.inc({ kind: method });
+      return res;
+    } catch (err) {
+      if (isSend) metrics.telegramFailures.inc({ kind: method });
+      throw err;
+    }
+  });
+
+  // Track updates being handled so shutdown can wait for them
+  bot.use(async (_ctx, next) => {
+    inFlight++;
+    try {
+      await next();
+    } finally {
+      inFlight--;
+    }
+  });
+
+  // Session middleware
+  bot.use(session({ initial: () => ({ messageCount: 0 }) }));
+
+  // Access control — every update runs inside its caller's context so that
+  // executeAction can check the role of whoever triggered it
+  const defaultRole = process.env.DEFAULT_ROLE && isRole(process.env.DEFAULT_ROLE) ? process.env.DEFAULT_ROLE : "viewer";
+  const access = new AccessControl(join(dataDir, "users.json"), process.env.OWNER_CHAT_ID, defaultRole);
+
+  // Group chats — per-group settings and admin checks for wallet actions
+  const groups = new GroupSettingsStore(join(dataDir, "groups.json"));
+  const groupAdmins = new GroupAdminCache(60_000, async (chatId, userId) =>
+    (await bot.api.getChatMember(chatId, Number(userId))).status,
+  );
+
+  bot.use(async (ctx, next) => {
+    if (!ctx.from) return;
+    const userId = ctx.from.id.toString();
+    const role = access.getRole(userId);
+    if (role === "blocked") {
+      console.log(`⛔ Ignoring update from blocked user ${userId}`);
+      return;
+    }
+    await callerContext.run(
+      { userId, chatId: ctx.chat?.id.toString() ?? userId, name: ctx.from.first_name || "anon", role },
+      next,
+    );
+  });
+
+  // In groups only messages addressed to the bot get further, so the chatter
+  // around it is neither answered nor counted against the rate limit
+  bot.on("message", async (ctx, next) => {
+    if (!isGroupChat(ctx.chat) || groups.get(ctx.chat.id.toString()).replies === "all") return next();
+    if (isAddressedToBot(ctx.message, ctx.me)) return next();
+  });
+
+  // Per-user rate limit on incoming messages (the owner is exempt)
+  const rateLimiter = new RateLimiter(
+    parseInt(process.env.RATE_LIMIT_MESSAGES || "10", 10),
+    parseInt(process.env.RATE_LIMIT_WINDOW_SECONDS || "60", 10) * 1000,
+  );
+  bot.on("message", async (ctx, next) => {
+    const userId = ctx.from.id.toString();
+    if (access.isOwner(userId)) return next();
+    const waitMs = rateLimiter.check(userId);
+    if (waitMs > 0) {
+      console.log(`🐢 Rate limited ${userId}`);
+      if (rateLimiter.shouldWarn(userId)) {
+        await reply(ctx, `🐢 Slow down a bit! You can send more in ${Math.ceil(waitMs / 1000)}s.`);
+      }
+      return;
+    }
+    await next();
+  });
+
+  // One message at a time per chat; value-moving actions share a global cap
+  const chatQueue = new ChatQueue(parseInt(process.env.MAX_QUEUE_PER_CHAT || "5", 10));
+  const writeSlots = new Semaphore(parseInt(process.env.MAX_CONCURRENT_WRITES || "1", 10));
+
+  // Initialize AIBINGWA agent with Claude Sonnet 3.5
+  const notifyOwner = async (msg: string): Promise<void> => {
+    if (process.env.OWNER_CHAT_ID) {
+      if (!(await sendRich(bot.api, process.env.OWNER_CHAT_ID, msg))) {
+        console.error("Failed to send notification:", msg.slice(0, 200));
+      }
+    }
+  };
+
+  const aibingwa = deps.createAgent(notifyOwner);
+
+  // Confirmation step — value-moving actions requested on behalf of a user are
+  // parked until that user taps Confirm; background callers run directly
+  const confirmations = new ConfirmationQueue(parseInt(process.env.CONFIRM_TIMEOUT_SECONDS || "120", 10) * 1000);
+
+  // Spending policy — caps, rolling 24h limits and recipient lists for every value-moving action
+  const policy = new SpendingPolicy(
+    join(dataDir, "policy.json"),
+    join(dataDir, "spend-log.json"),
+    { resolveToken, resolveAddress },
+  );
+  const executePolicyChecked = withPolicy(policy, (actionName, args) => runRecordedAction(actionName, args), recordAudit);
+  // The policy check and the spend it records happen inside the same write slot
+  const executeWithPolicy = (actionName: string, args?: Record<string, any>) =>
+    writeSlots.run(() => executePolicyChecked(actionName, args));
+
+  const dispatchAction = async (actionName: string, args: Record<string, any> = {}, recipient?: Recipient): Promise<string> => {
+    const caller = getCaller();
+    if (!isValueMovingAction(actionName)) return executeAction(actionName, args);
+    if (!caller) return resultToString(await executeWithPolicy(actionName, args));
+
+    const denied = await checkPermission(actionName);
+    if (denied) {
+      recordAudit(actionName, args, denied);
+      return resultToString(denied);
+    }
+
+    // Refuse up front rather than asking for a confirmation that can never succeed
+    const violation = await policy.check(actionName, args, caller.userId);
+    if (violation) {
+      const refused = actionError("denied", `Spending policy — ${violation}`);
+      recordAudit(actionName, args, refused);
+      return resultToString(refused);
+    }
+
+    const summary = await describeAction(actionName, args, describeResolvers(recipient));
+    const pending = confirmations.create({
+      chatId: caller.chatId,
+      userId: caller.userId,
+      userName: caller.name,
+      actionName,
+      args,
+      summary,
+      recipient: recipient?.name?.endsWith(".eth") ? { name: recipient.name, address: recipient.address } : undefined,
+    });
+    const keyboard = new InlineKeyboard()
+      .text("✅ Confirm", `confirm:${pending.id}`)
+      .text("❌ Cancel", `cancel:${pending.id}`);
+    const sent = await bot.api.sendMessage(
+      caller.chatId,
+      `${summary}\n\n⏳ Expires in ${confirmations.getTimeoutSeconds()}s`,
+      { reply_markup: keyboard },
+    );
+    pending.messageId = sent.message_id;
+    console.log(`⏳ Pending ${actionName} (${pending.id}) for ${caller.name}`);
+    return `Awaiting user confirmation (id ${pending.id}). A Confirm/Cancel prompt has been shown:\n${summary}\n` +
+      `Do not retry this action — it runs only if the user taps Confirm within ${confirmations.getTimeoutSeconds()}s.`;
+  };
+
+  bot.callbackQuery(/^(confirm|cancel):([0-9a-f]+)$/, async (ctx) => {
+    const [, choice, id] = ctx.match;
+    const pending = confirmations.get(id);
+    const userId = ctx.from.id.toString();
+    if (pending && pending.userId !== userId && !access.isOwner(userId)) {
+      await ctx.answerCallbackQuery({ text: "Only the requester can confirm this." });
+      return;
+    }
+    const taken = confirmations.take(id);
+    if (!taken) {
+      await ctx.answerCallbackQuery({ text: "This request has expired." });
+      await ctx.editMessageText(`${pending?.summary ?? "Request"}\n\n⌛ Expired`).catch(() => {});
+      return;
+    }
+    if (choice === "cancel") {
+      console.log(`❌ Cancelled ${taken.actionName} (${taken.id})`);
+      await ctx.answerCallbackQuery({ text: "Cancelled" });
+      await ctx.editMessageText(`${taken.summary}\n\n❌ Cancelled`);
+      return;
+    }
+
+    await ctx.answerCallbackQuery({ text: "Executing..." });
+    await ctx.editMessageText(`${taken.summary}\n\n⏳ Executing...`);
+    console.log(`✅ Confirmed ${taken.actionName} (${taken.id})`);
+    // Run as the original requester so role checks and per-user limits apply to them
+    const result = await callerContext.run(
+      { userId: taken.userId, chatId: taken.chatId, name: taken.userName, role: access.getRole(taken.userId) },
+      () => executeWithPolicy(taken.actionName, taken.args),
+    );
+    if (result.ok && taken.recipient) names.remember(taken.recipient.name, taken.recipient.address);
+    await ctx.editMessageText(`${taken.summary}\n\n${formatActionResult(result)}`.slice(0, 4096));
+  });
+
+  backgroundJobs.push(() => {
+    const expiryTimer = setInterval(() => {
+      for (const expired of confirmations.sweep()) {
+        console.log(`⌛ Expired ${expired.actionName} (${expired.id})`);
+        if (expired.messageId) {
+          bot.api.editMessageText(expired.chatId, expired.messageId, `${expired.summary}\n\n⌛ Expired`).catch(() => {});
+        }
+      }
+    }, 10_000);
+    expiryTimer.unref();
+  });
+
+  const getPrice = async (symbol: string): Promise<string> => {
+    const token = resolveToken(symbol);
+    if (!token || !token.pythFeedId) return `Unknown token: ${symbol}`;
+    const result = await executeAction("PythActionProvider_fetch_price", { priceFeedID: token.pythFeedId });
+    return result;
+  };
+
+  // Skill toggles — skills are registered through a guard, so one turned off in the
+  // calling chat refuses to run even if the agent picks it despite the hint
+  const skillToggles = new SkillToggleStore(join(dataDir, "skills.json"));
+  const allSkills = (): SkillInfo[] => aibingwa.skills.getAll();
+  const skillRegistry = guardSkillRegistry(aibingwa.skills, (skill) => {
+    const chatId = getCaller()?.chatId;
+    return !chatId || skillToggles.isEnabled(chatId, skill);
+  });
+
+  // Register ALL skills from the package (Bankr, trading, research, leverage, NFT, etc.)
+  deps.registerSkills(skillRegistry, {
+    bankrPrompt: aibingwa.getBankrPrompt(),
+    agentInstance: aibingwa,
+    executeAction: (actionName: string, args?: Record<string, any>) => dispatchAction(actionName, args),
+    getWalletAddress: () => getWalletAddress(),
+    getEthBalance,
+    getTokenBalance,
+    resolveAddress,
+    getPrice,
+    tokenRegistry: TOKEN_REGISTRY,
+    isBankrConfigured: () => !!process.env.BANKR_API_KEY,
+    trader: aibingwa.trader ? {
+      scanMarket: () => aibingwa.trader!.scanMarket(),
+      toggleAutoTrade: (on: boolean) => aibingwa.trader!.toggleAutoTrade(on),
+      updateSettings: (u: any) => aibingwa.trader!.updateSettings(u),
+      getMemory: () => aibingwa.trader!.getMemory(),
+    } : undefined,
+    x402Client: aibingwa.x402Client || undefined,
+    twitterClient: aibingwa.twitterClient || undefined,
+  });
+
+  const balanceResponse = async (): Promise<string> => {
+    if (!(await callerWallet())) return `👛 ${NO_WALLET}`;
+    const walletAddr = await getWalletAddress();
+    if (!walletAddr) throw new Error("Wallet address unavailable");
+    const portfolio = await getPortfolio(
+      baseClient,
+      walletAddr,
+      Object.values(TOKEN_REGISTRY),
+      (priceFeedID) => executeAction("PythActionProvider_fetch_price", { priceFeedID }),
+    );
+    return formatPortfolio(portfolio, network.name);
+  };
+
+  const walletResponse = async (): Promise<string> => {
+    if (!(await callerWallet())) return `👛 ${NO_WALLET}`;
+    const walletAddr = await getWalletAddress();
+    const primaryName = walletAddr ? await names.lookupName(walletAddr) : null;
+    return `👛 Wallet\n\n${walletAddr || "Unknown"}${primaryName ? `\n${primaryName}` : ""}\n\n` +
+      `🌐 Network: ${network.name}${network.isMainnet ? " ⚠️ real funds" : ""}\n` +
+      `Transfers: ${writesAllowed(network) ? "enabled" : "disabled (ALLOW_MAINNET_WRITES is not set)"}\n` +
+      (walletAddr ? `${network.explorerUrl}/address/${walletAddr}` : "");
+  };
+
+  // Each user's reply language; /language sets it
+  const languages = new LanguageStore(join(dataDir, "languages.json"));
+  const userLanguage = (userId: string): Language => languages.get(userId) ?? DEFAULT_LANGUAGE;
+
+  // Commands
+  bot.command("start", async (ctx) => {
+    await reply(ctx, getRandomResponse(MESSAGES[userLanguage(ctx.from!.id.toString())].greetings));
+    if (!deps.chatWallets || (await callerWallet())) return;
+    try {
+      const wallet = await deps.chatWallets.create(ctx.chat.id.toString());
+      console.log(`👛 Created wallet ${wallet.address} for chat ${ctx.chat.id}`);
+      await reply(ctx, `👛 This chat's wallet is ready\n\n${wallet.address}\n\n` +
+        `Fund it on ${network.name} to start trading.\n${network.explorerUrl}/address/${wallet.address}`);
+    } catch (err: any) {
+      console.error(`Failed to create wallet for chat ${ctx.chat.id}:`, err);
+      await reply(ctx, `❌ Could not create a wallet for this chat: ${err.message}`);
+    }
+  });
+
+  bot.command("help", async (ctx) => {
+    await reply(ctx, MESSAGES[userLanguage(ctx.from!.id.toString())].help);
+  });
+
+  bot.command("language", async (ctx) => {
+    const userId = ctx.from!.id.toString();
+    const input = ctx.match.trim();
+    if (!input) {
+      await reply(ctx, MESSAGES[userLanguage(userId)].languageUsage.replace("{language}", LANGUAGES[userLanguage(userId)]));
+      return;
+    }
+    const language = parseLanguage(input);
+    if (!language) {
+      await reply(ctx, `❓ ${input}? ${Object.entries(LANGUAGES).map(([code, name]) => `${code} (${name})`).join(", ")}`);
+      return;
+    }
+    languages.set(userId, language);
+    console.log(`🌍 ${userId} → ${language}`);
+    await reply(ctx, MESSAGES[language].languageSet);
+  });
+
+  bot.command("wallet", async (ctx) => {
+    await reply(ctx, await walletResponse());
+  });
+
+  // Skill browser — categories, pages and per-skill details on an inline keyboard
+  type SkillView = { text: string; keyboard: InlineKeyboard };
+
+  const skillsOverview = (chatId: string): SkillView => {
+    const catalog = buildCatalog(allSkills());
+    const keyboard = new InlineKeyboard();
+    catalog.categories.forEach((category, i) => {
+      const off = !skillToggles.isCategoryEnabled(chatId, category);
+      keyboard.text(`${off ? "🚫 " : ""}${category} (${catalog.byCategory.get(category)!.length})`, `skills:c:${i}:0`);
+      if (i % 2 === 1 && i < catalog.categories.length - 1) keyboard.row();
+    });
+    const { disabledCategories, disabledSkills } = skillToggles.disabled(chatId);
+    const off = disabledCategories.length + disabledSkills.length > 0
+      ? `\n\n🚫 Turned off here: ${[...disabledCategories, ...disabledSkills].join(", ")}`
+      : "";
+    return {
+      text: `🧠 **Available Skills (${catalog.skills.length} total)**\n\n` +
+        `Pick a category to browse, or send /skill <name> for a skill's details.${off}`,
+      keyboard,
+    };
+  };
+
+  const skillsPage = (chatId: string, index: number, page: number, isOwner: boolean): SkillView | null => {
+    const catalog = buildCatalog(allSkills());
+    const category = catalog.categories[index];
+    if (!category) return null;
+    const skills = catalog.byCategory.get(category)!;
+    const pages = pageCount(skills.length);
+    page = Math.min(Math.max(page, 0), pages - 1);
+    const shown = skills.slice(page * SKILLS_PER_PAGE, (page + 1) * SKILLS_PER_PAGE);
+    const categoryOn = skillToggles.isCategoryEnabled(chatId, category);
+
+    const lines = shown.map((skill) => {
+      const description = skill.description ? ` — ${skill.description.length > 80 ? `${skill.description.slice(0, 79)}…` : skill.description}` : "";
+      return `${skillToggles.isEnabled(chatId, skill) ? "•" : "🚫"} **${skill.name}**${description}`;
+    });
+    const keyboard = new InlineKeyboard();
+    shown.forEach((skill, i) => {
+      keyboard.text(skill.name, `skills:s:${catalog.skills.indexOf(skill)}`);
+      if (i % 2 === 1 && i < shown.length - 1) keyboard.row();
+    });
+    if (pages > 1) keyboard.row();
+    if (page > 0) keyboard.text("◀ Prev", `skills:c:${index}:${page - 1}`);
+    if (page < pages - 1) keyboard.text("Next ▶", `skills:c:${index}:${page + 1}`);
+    keyboard.row().text("⬅ Categories", "skills:home");
+    if (isOwner) keyboard.text(categoryOn ? "🚫 Turn off here" : "✅ Turn on here", `skills:tc:${index}:${page}`);
+    return {
+      text: `🧩 **${category.toUpperCase()}** — page ${page + 1}/${pages}${categoryOn ? "" : " (turned off in this chat)"}\n\n${lines.join("\n")}`,
+      keyboard,
+    };
+  };
+
+  const skillDetail = (chatId: string, skill: SkillInfo, isOwner: boolean): SkillView => {
+    const catalog = buildCatalog(allSkills());
+    const categoryIndex = catalog.categories.indexOf(skill.category);
+    const page = Math.floor(catalog.byCategory.get(skill.category)!.indexOf(skill) / SKILLS_PER_PAGE);
+    const enabled = skillToggles.isEnabled(chatId, skill);
+    const examples = skill.examples?.length
+      ? `\n\n**Try asking:**\n${skill.examples.slice(0, 5).map((e) => `• "${e}"`).join("\n")}`
+      : "";
+    const keyboard = new InlineKeyboard().text(`⬅ ${skill.category}`, `skills:c:${categoryIndex}:${page}`);
+    // A skill in a turned-off category stays off whatever its own toggle says, so only offer the category switch
+    if (isOwner && skillToggles.isCategoryEnabled(chatId, skill.category)) {
+      keyboard.text(enabled ? "🚫 Turn off here" : "✅ Turn on here", `skills:ts:${catalog.skills.indexOf(skill)}`);
+    }
+    return {
+      text: `🧩 **${skill.name}**\n` +
+        `Category: ${skill.category}\n` +
+        `Status: ${enabled ? "on" : "turned off in this chat"}\n\n` +
+        `${skill.description ?? "No description."}${examples}`,
+      keyboard,
+    };
+  };
+
+  bot.command("skills", async (ctx) => {
+    const view = skillsOverview(ctx.chat.id.toString());
+    await ctx.reply(markdownToHtml(view.text), { parse_mode: "HTML", reply_markup: view.keyboard });
+  });
+
+  bot.command("skill", async (ctx) => {
+    const query = ctx.match.trim();
+    if (!query) {
+      await reply(ctx, "Usage: /skill <name>\nBrowse everything with /skills");
+      return;
+    }
+    const found = findSkill(buildCatalog(allSkills()), query);
+    if (!found) {
+      await reply(ctx, `❓ No skill matches "${query}". Browse them with /skills`);
+      return;
+    }
+    if (Array.isArray(found)) {
+      await reply(ctx, `🔎 ${found.length} skills match "${query}":\n\n${found.slice(0, 20).map((s) => `• ${s.name}`).join("\n")}` +
+        (found.length > 20 ? `\n… and ${found.length - 20} more` : ""));
+      return;
+    }
+    const view = skillDetail(ctx.chat.id.toString(), found, access.isOwner(ctx.from!.id.toString()));
+    await ctx.reply(markdownToHtml(view.text), { parse_mode: "HTML", reply_markup: view.keyboard });
+  });
+
+  bot.callbackQuery(/^skills:(home|c|s|tc|ts)(?::(\d+))?(?::(\d+))?$/, async (ctx) => {
+    const [, view, first, second] = ctx.match;
+    const chatId = ctx.chat?.id.toString();
+    if (!chatId) return;
+    const isOwner = access.isOwner(ctx.from.id.toString());
+    const catalog = buildCatalog(allSkills());
+    const index = Number(first ?? 0);
+    const page = Number(second ?? 0);
+
+    if ((view === "tc" || view === "ts") && !isOwner) {
+      await ctx.answerCallbackQuery({ text: "Only the owner can turn skills on or off." });
+      return;
+    }
+    if (view === "tc" && catalog.categories[index]) {
+      const category = catalog.categories[index];
+      const enable = !skillToggles.isCategoryEnabled(chatId, category);
+      skillToggles.setCategory(chatId, category, enable);
+      console.log(`🧩 ${category} skills ${enable ? "on" : "off"} in chat ${chatId}`);
+    }
+    if (view === "ts" && catalog.skills[index]) {
+      const skill = catalog.skills[index];
+      const enable = !skillToggles.isEnabled(chatId, skill);
+      skillToggles.setSkill(chatId, skill.name, enable);
+      console.log(`🧩 ${skill.name} ${enable ? "on" : "off"} in chat ${chatId}`);
+    }
+
+    const next = view === "home" ? skillsOverview(chatId)
+      : view === "c" || view === "tc" ? skillsPage(chatId, index, page, isOwner)
+      : catalog.skills[index] ? skillDetail(chatId, catalog.skills[index], isOwner)
+      : null;
+    await ctx.answerCallbackQuery();
+    if (!next) return;
+    // Telegram rejects edits that change nothing, e.g. a double tap
+    await ctx.editMessageText(markdownToHtml(next.text), { parse_mode: "HTML", reply_markup: next.keyboard }).catch(() => {});
+  });
+
+  bot.command("openclaw", async (ctx) => {
+    await reply(ctx, MESSAGES[userLanguage(ctx.from!.id.toString())].openclaw);
+  });
+
+  // Owner-only role management
+  bot.command("grant", async (ctx) => {
+    if (!access.isOwner(ctx.from!.id.toString())) {
+      await reply(ctx, "⛔ Only the owner can manage roles.");
+      return;
+    }
+    const args = ctx.match.trim().split(/\s+/).filter(Boolean);
+    const replied = ctx.message?.reply_to_message?.from;
+    const userId = replied ? replied.id.toString() : args.shift();
+    const role = args.shift()?.toLowerCase();
+    if (!userId || !role || !isRole(role)) {
+      await reply(ctx, `Usage: /grant <userId> <${ROLES.join("|")}>\nOr reply to a user's message with /grant <role>`);
+      return;
+    }
+    try {
+      access.grant(userId, role, ctx.from!.id.toString(), replied?.first_name);
+      console.log(`🔐 ${userId} → ${role}`);
+      await reply(ctx, `✅ ${replied?.first_name ?? userId} is now ${role}.`);
+    } catch (err: any) {
+      await reply(ctx, `❌ Error: ${err.message}`);
+    }
+  });
+
+  bot.command("revoke", async (ctx) => {
+    if (!access.isOwner(ctx.from!.id.toString())) {
+      await reply(ctx, "⛔ Only the owner can manage roles.");
+      return;
+    }
+    const replied = ctx.message?.reply_to_message?.from;
+    const userId = replied ? replied.id.toString() : ctx.match.trim();
+    if (!userId) {
+      await reply(ctx, "Usage: /revoke <userId>\nOr reply to a user's message with /revoke");
+      return;
+    }
+    try {
+      const removed = access.revoke(userId);
+      await reply(ctx, removed
+        ? `✅ Removed ${userId} — back to the default role (${access.getDefaultRole()}).`
+        : `${userId} has no granted role.`);
+    } catch (err: any) {
+      await reply(ctx, `❌ Error: ${err.message}`);
+    }
+  });
+
+  bot.command("users", async (ctx) => {
+    if (!access.isOwner(ctx.from!.id.toString())) {
+      await reply(ctx, "⛔ Only the owner can manage roles.");
+      return;
+    }
+    const users = access.list();
+    const lines = [`🔐 Users (default role: ${access.getDefaultRole()})`, ""];
+    for (const u of users) {
+      lines.push(`• ${u.userId}${u.name ? ` (${u.name})` : ""} — ${u.role}`);
+    }
+    if (users.length === 0) lines.push("No roles granted yet.");
+    await reply(ctx, lines.join("\n"));
+  });
+
+  bot.command("limits", async (ctx) => {
+    const [sub, ...rest] = ctx.match.trim().split(/\s+/).filter(Boolean);
+    const rules = policy.getRules();
+
+    if (!sub) {
+      const fmt = (limits: Record<string, number>) =>
+        Object.entries(limits).map(([t, v]) => `${v} ${t}`).join(", ") || "none";
+      const spent = Object.keys(rules.dailyLimit)
+        .map((t) => `${t}: ${policy.spentToday(t)}/${rules.dailyLimit[t]}`)
+        .join(", ");
+      await reply(ctx, 
+        `🛡️ Spending Limits\n\n` +
+        `Per transaction: ${fmt(rules.maxPerTx)}\n` +
+        `Rolling 24h (all users): ${fmt(rules.dailyLimit)}\n` +
+        `Rolling 24h (per user): ${fmt(rules.userDailyLimit)}\n` +
+        `Spent in last 24h: ${spent || "n/a"}\n` +
+        `Recipient allowlist: ${rules.recipientAllowlist.join(", ") || "any"}\n` +
+        `Recipient denylist: ${rules.recipientDenylist.join(", ") || "none"}\n` +
+        `Never sell: ${rules.neverSell.join(", ") || "none"}\n\n` +
+        `Owner edits:\n` +
+        `/limits maxtx|daily|userdaily <token> <amount|off>\n` +
+        `/limits allow|unallow|deny|undeny <address or ENS>\n` +
+        `/limits neversell|cansell <token>`,
+      );
+      return;
+    }
+
+    if (!access.isOwner(ctx.from!.id.toString())) {
+      await reply(ctx, "⛔ Only the owner can edit limits.");
+      return;
+    }
+
+    // Rules are keyed the way the policy looks them up, so a limit on an unlisted token is enforced
+    const unknownToken = (input: string) =>
+      `❌ ${input} is not in the token registry. Use its contract address, or add it with /addtoken first.`;
+
+    switch (sub.toLowerCase()) {
+      case "maxtx":
+      case "daily":
+      case "userdaily": {
+        const [input, value] = rest;
+        const field = ({ maxtx: "maxPerTx", daily: "dailyLimit", userdaily: "userDailyLimit" } as const)[sub.toLowerCase() as "maxtx" | "daily" | "userdaily"];
+        const amount = parseFloat(value);
+        if (!input || (value !== "off" && !(amount > 0))) {
+          await reply(ctx, `Usage: /limits ${sub} <token> <amount|off>`);
+          return;
+        }
+        // Removals also take the name as typed, so entries saved under it before can be cleared
+        const token = policyTokenKey(input, resolveToken) ?? (value === "off" ? input.toUpperCase() : null);
+        if (!token) {
+          await reply(ctx, unknownToken(input));
+          return;
+        }
+        policy.updateRules((r) => {
+          if (value === "off") delete r[field][token];
+          else r[field][token] = amount;
+        });
+        await reply(ctx, `✅ ${sub} ${token}: ${value === "off" ? "removed" : amount}`);
+        return;
+      }
+      case "allow":
+      case "unallow":
+      case "deny":
+      case "undeny": {
+        if (!rest[0]) {
+          await reply(ctx, `Usage: /limits ${sub} <address or ENS>`);
+          return;
+        }
+        const { address } = await resolveAddress(rest[0]);
+        if (!isAddress(address)) {
+          await reply(ctx, `❌ Could not resolve ${rest[0]}`);
+          return;
+        }
+        const entry = address.toLowerCase();
+        const list = sub.toLowerCase().endsWith("allow") ? "recipientAllowlist" : "recipientDenylist";
+        const adding = sub.toLowerCase() === "allow" || sub.toLowerCase() === "deny";
+        policy.updateRules((r) => {
+          r[list] = r[list].filter((a) => a !== entry);
+          if (adding) r[list].push(entry);
+        });
+        await reply(ctx, `✅ ${adding ? "Added" : "Removed"} ${address} ${adding ? "to" : "from"} the ${list === "recipientAllowlist" ? "allowlist" : "denylist"}`);
+        return;
+      }
+      case "neversell":
+      case "cansell": {
+        if (!rest[0]) {
+          await reply(ctx, `Usage: /limits ${sub} <token>`);
+          return;
+        }
+        const token = policyTokenKey(rest[0], resolveToken) ?? (sub.toLowerCase() === "cansell" ? rest[0].toUpperCase() : null);
+        if (!token) {
+          await reply(ctx, unknownToken(rest[0]));
+          return;
+        }
+        policy.updateRules((r) => {
+          r.neverSell = r.neverSell.filter((t) => t !== token);
+          if (sub.toLowerCase() === "neversell") r.neverSell.push(token);
+        });
+        await reply(ctx, `✅ ${token} ${sub.toLowerCase() === "neversell" ? "can no longer be sold" : "can be sold again"}`);
+        return;
+      }
+      default:
+        await reply(ctx, `Unknown option "${sub}". Send /limits to see usage.`);
+    }
+  });
+
+  bot.command("tokens", async (ctx) => {
+    const lines = ["🪙 Token Registry", ""];
+    for (const [key, t] of Object.entries(TOKEN_REGISTRY)) {
+      lines.push(`• ${t.symbol} (${key}) — ${t.address || "price only"}${t.pythFeedId ? " 📊" : ""}`);
+    }
+    await reply(ctx, lines.join("\n"));
+  });
+
+  bot.command("addtoken", async (ctx) => {
+    if (!access.isOwner(ctx.from!.id.toString())) {
+      await reply(ctx, "⛔ Only the owner can edit the token registry.");
+      return;
+    }
+    const [address, expectedSymbol] = ctx.match.trim().split(/\s+/).filter(Boolean);
+    if (!address) {
+      await reply(ctx, "Usage: /addtoken <address> [expected symbol]");
+      return;
+    }
+    try {
+      const entry = await addToken(baseClient, tokensFile, address, expectedSymbol);
+      console.log(`🪙 Added ${entry.symbol} at ${entry.address}`);
+      await reply(ctx, `✅ Added ${entry.symbol} — ${entry.name}\n${entry.address}\nDecimals: ${entry.decimals}`);
+    } catch (err: any) {
+      await reply(ctx, `❌ Rejected: ${err.shortMessage ?? err.message}`);
+    }
+  });
+
+  bot.command("removetoken", async (ctx) => {
+    if (!access.isOwner(ctx.from!.id.toString())) {
+      await reply(ctx, "⛔ Only the owner can edit the token registry.");
+      return;
+    }
+    const input = ctx.match.trim();
+    if (!input) {
+      await reply(ctx, "Usage: /removetoken <symbol or address>");
+      return;
+    }
+    try {
+      const removed = removeToken(tokensFile, input);
+      await reply(ctx, removed ? `✅ Removed ${removed.symbol}` : `Unknown token: ${input}`);
+    } catch (err: any) {
+      await reply(ctx, `❌ Error: ${err.message}`);
+    }
+  });
+
+  // Address book — named recipients per chat, usable anywhere an address is
+  bot.command("contacts", async (ctx) => {
+    const list = contacts.forChat(ctx.chat.id.toString());
+    if (list.length === 0) {
+      await reply(ctx, "📇 No contacts yet. Add one with /addcontact <name> <address or ENS> [note]");
+      return;
+    }
+    await reply(ctx, `📇 Contacts (${list.length})\n\n${list.map(formatContact).join("\n\n")}`);
+  });
+
+  bot.command("addcontact", async (ctx) => {
+    const userId = ctx.from!.id.toString();
+    if (!canMoveFunds(access.getRole(userId))) {
+      await reply(ctx, "⛔ Only traders and the owner can edit contacts.");
+      return;
+    }
+    const [rawName, target, ...rest] = ctx.match.trim().split(/\s+/).filter(Boolean);
+    if (!rawName || !target) {
+      await reply(ctx, "Usage: /addcontact <name> <address or ENS> [trusted] [note]");
+      return;
+    }
+    const name = rawName.toLowerCase();
+    if (!isValidContactName(name)) {
+      await reply(ctx, "❌ Contact names are 1-32 characters: a letter, then letters, digits, - or _");
+      return;
+    }
+    // The trusted flag is read by the confirmation and limits layers, so only the owner can set it
+    const trusted = rest[0]?.toLowerCase() === "trusted";
+    if (trusted && !access.isOwner(userId)) {
+      await reply(ctx, "⛔ Only the owner can mark a contact as trusted.");
+      return;
+    }
+    const note = (trusted ? rest.slice(1) : rest).join(" ") || undefined;
+    const resolved = await names.resolve(target);
+    if (!resolved.address) {
+      await reply(ctx, `❌ Could not resolve ${target} to a valid address`);
+      return;
+    }
+    const contact = contacts.set(ctx.chat.id.toString(), {
+      name,
+      address: resolved.address,
+      ens: target.toLowerCase().endsWith(".eth") ? resolved.name : undefined,
+      note,
+      trusted,
+      addedBy: userId,
+    });
+    console.log(`📇 Contact ${contact.name} → ${contact.address} in chat ${ctx.chat.id}`);
+    await reply(ctx, `✅ Saved contact\n\n${formatContact(contact)}`);
+  });
+
+  bot.command("delcontact", async (ctx) => {
+    if (!canMoveFunds(access.getRole(ctx.from!.id.toString()))) {
+      await reply(ctx, "⛔ Only traders and the owner can edit contacts.");
+      return;
+    }
+    const name = ctx.match.trim();
+    if (!name) {
+      await reply(ctx, "Usage: /delcontact <name>");
+      return;
+    }
+    const removed = contacts.remove(ctx.chat.id.toString(), name);
+    await reply(ctx, removed ? `✅ Removed ${name.toLowerCase()}` : `No contact named ${name}`);
+  });
+
+  // Price alerts — persisted per chat, checked by a background poller
+  const alerts = new AlertStore(join(dataDir, "alerts.json"), parseInt(process.env.MAX_ALERTS_PER_CHAT || "20", 10));
+  backgroundJobs.push(() => startAlertPoller(alerts, {
+    intervalMs: parseInt(process.env.ALERT_POLL_SECONDS || "60", 10) * 1000,
+    cooldownMs: parseInt(process.env.ALERT_COOLDOWN_MINUTES || "60", 10) * 60_000,
+    fetchPrice: async (priceFeedID) =>
+      parsePythPrice(await executeAction("PythActionProvider_fetch_price", { priceFeedID })),
+    notify: async (chatId, message) => {
+      await bot.api.sendMessage(chatId, message);
+    },
+  }));
+
+  // Deposits and unexpected transfers out of the shared wallet, reported to the owner
+  if (process.env.OWNER_CHAT_ID && process.env.TRANSFER_WATCH !== "false") {
+    backgroundJobs.push(() => {
+      // Writes from before this run come from the audit log
+      for (const entry of auditLog.read({ valueMovingOnly: true })) {
+        if (entry.denied) continue;
+        const movement = parseValueMovement(entry.action, entry.args, resolveToken);
+        ownWrites.record({
+          at: Date.parse(entry.ts) - entry.durationMs,
+          txHash: entry.txHash,
+          symbol: entry.token,
+          amount: entry.amount,
+          recipient: movement?.recipient,
+        });
+      }
+      startTransferWatcher(baseClient, new TransferCursor(join(dataDir, "transfer-watch.json")), {
+        intervalMs: parseInt(process.env.TRANSFER_POLL_SECONDS || "30", 10) * 1000,
+        maxBlocks: BigInt(process.env.TRANSFER_MAX_BLOCKS || "500"),
+        maxScanBlocks: 50n,
+        dustUsd: parseFloat(process.env.TRANSFER_DUST_USD || "1"),
+        getWallet: getWalletAddress,
+        tokens: () => Object.values(TOKEN_REGISTRY),
+        usdPrice: async (token) => token.pythFeedId
+          ? parsePythPrice(await executeAction("PythActionProvider_fetch_price", { priceFeedID: token.pythFeedId }))
+          : null,
+        ownWrites,
+        describeAddress: async (address) => {
+          const contact = contacts.findByAddress(process.env.OWNER_CHAT_ID!, address);
+          const name = contact?.name ?? await names.lookupName(address);
+          return name ? `${name} (${address})` : address;
+        },
+        explorerUrl: network.explorerUrl,
+        notify: notifyOwner,
+      });
+    });
+  }
+
+  bot.command("alert", async (ctx) => {
+    const request = parseAlertRequest(ctx.match);
+    if (!request) {
+      await reply(ctx, "Usage: /alert <token> >|< <price> [once|repeat]\nExample: /alert ETH > 4000");
+      return;
+    }
+    const token = resolveToken(request.symbol);
+    if (!token) {
+      await reply(ctx, `❓ Unknown token: ${request.symbol}. Send /tokens to see what I know.`);
+      return;
+    }
+    if (!token.pythFeedId) {
+      await reply(ctx, `❓ ${token.symbol} has no Pyth price feed, so I can't watch its price.`);
+      return;
+    }
+    const alert = alerts.add({
+      chatId: ctx.chat.id.toString(),
+      symbol: token.symbol,
+      pythFeedId: token.pythFeedId,
+      direction: request.direction,
+      threshold: request.threshold,
+      mode: request.mode,
+    });
+    if (!alert) {
+      await reply(ctx, `⚠️ This chat already has ${alerts.maxPerChat} price alerts, the most it can have. Remove one with /unalert <id> first (see /alerts).`);
+      return;
+    }
+    await reply(ctx, `🔔 Alert ${alert.id} set: ${formatAlert(alert)}`);
+  });
+
+  bot.command("alerts", async (ctx) => {
+    const list = alerts.forChat(ctx.chat.id.toString());
+    if (list.length === 0) {
+      await reply(ctx, "No price alerts. Set one with /alert ETH > 4000");
+      return;
+    }
+    await reply(ctx, ["🔔 Price Alerts", "", ...list.map((a) => `• ${a.id} — ${formatAlert(a)}`)].join("\n"));
+  });
+
+  bot.command("unalert", async (ctx) => {
+    const id = ctx.match.trim();
+    if (!id) {
+      await reply(ctx, "Usage: /unalert <id>");
+      return;
+    }
+    await reply(ctx, alerts.remove(ctx.chat.id.toString(), id) ? `✅ Alert ${id} removed` : `No alert with id ${id}`);
+  });
+
+  // Recurring transfers and DCA — run through the same policy-checked path as confirmed actions
+  const schedules = new ScheduleStore(join(dataDir, "schedules.json"));
+  const catchUp = process.env.SCHEDULE_CATCH_UP === "once" ? "once" : "skip";
+  backgroundJobs.push(() => startScheduler(schedules, {
+    intervalMs: 30_000,
+    graceMs: parseInt(process.env.SCHEDULE_GRACE_MINUTES || "10", 10) * 60_000,
+    catchUp,
+    // Runs as the creator, so a revoked role or an exhausted limit stops the schedule's runs too
+    run: (schedule) => callerContext.run(
+      { userId: schedule.userId, chatId: schedule.chatId, name: schedule.userName, role: access.getRole(schedule.userId) },
+      () => executeWithPolicy(schedule.actionName, schedule.args),
+    ),
+    notify: notifyOwner,
+  }));
+
+  bot.command("schedule", async (ctx) => {
+    const caller = getCaller()!;
+    if (!canMoveFunds(caller.role)) {
+      await reply(ctx, "⛔ Only traders and the owner can create schedules.");
+      return;
+    }
+    const usage = "Usage: /schedule <request> every <day|weekday|week|month|monday…|hour> [at HH:MM]\n" +
+      "   or: /schedule <cron expression> <request>\n" +
+      "Examples:\n/schedule buy $10 of eth with usdc every day at 09:00\n/schedule send 50 usdc to treasury every monday\n" +
+      "Times are UTC.";
+    const recurrence = parseRecurrence(ctx.match);
+    if (!recurrence) {
+      await reply(ctx, usage);
+      return;
+    }
+    const intent = parseNaturalLanguage(recurrence.rest);
+    const action = intent.confident && (intent.action === "send" || intent.action === "trade")
+      ? await intentToAction(intent)
+      : null;
+    if (!action) {
+      await reply(ctx, `❓ I can schedule sends and swaps like "send 50 usdc to treasury" or "buy $10 of eth with usdc".\n\n${usage}`);
+      return;
+    }
+    if (typeof action === "string") {
+      await reply(ctx, `❌ ${action}`);
+      return;
+    }
+    const denied = await checkPermission(action.actionName);
+    if (denied) {
+      recordAudit(action.actionName, action.args, denied);
+      await reply(ctx, formatActionResult(denied));
+      return;
+    }
+    const violation = await policy.check(action.actionName, action.args, caller.userId);
+    if (violation) {
+      recordAudit(action.actionName, action.args, actionError("denied", `Spending policy — ${violation}`));
+      await reply(ctx, `❌ Spending policy — ${violation}`);
+      return;
+    }
+    const schedule = schedules.add({
+      chatId: caller.chatId,
+      userId: caller.userId,
+      userName: caller.name,
+      cron: recurrence.cron,
+      description: recurrence.rest,
+      actionName: action.actionName,
+      args: action.args,
+    });
+    console.log(`🗓️  Schedule ${schedule.id} created by ${caller.name}: ${schedule.cron} ${schedule.description}`);
+    const summary = await describeAction(action.actionName, action.args, describeResolvers(action.recipient));
+    await reply(ctx, `✅ Scheduled\n\n${formatSchedule(schedule)}\n\n${summary}\n\n` +
+      `Runs without a confirmation prompt; spending limits still apply. Missed runs are ${catchUp === "once" ? "caught up once" : "skipped"}.`);
+  });
+
+  bot.command("schedules", async (ctx) => {
+    const list = schedules.forChat(ctx.chat.id.toString());
+    if (list.length === 0) {
+      await reply(ctx, "🗓️ No schedules in this chat. Create one with /schedule");
+      return;
+    }
+    await reply(ctx, `🗓️ Schedules (${list.length})\n\n${list.map(formatSchedule).join("\n\n")}`);
+  });
+
+  const scheduleCommand = (status: "active" | "paused" | "cancel") => async (ctx: MyContext) => {
+    if (!canMoveFunds(access.getRole(ctx.from!.id.toString()))) {
+      await reply(ctx, "⛔ Only traders and the owner can change schedules.");
+      return;
+    }
+    const id = (ctx.match as string).trim();
+    const chatId = ctx.chat!.id.toString();
+    if (!id) {
+      await reply(ctx, `Usage: /${status === "active" ? "resume" : status === "paused" ? "pause" : "cancel"} <id>`);
+      return;
+    }
+    if (status === "cancel") {
+      await reply(ctx, schedules.remove(chatId, id) ? `✅ Schedule ${id} cancelled` : `No schedule with id ${id}`);
+      return;
+    }
+    const updated = schedules.setStatus(chatId, id, status);
+    await reply(ctx, updated ? formatSchedule(updated) : `No schedule with id ${id}`);
+  };
+  bot.command("pause", scheduleCommand("paused"));
+  bot.command("resume", scheduleCommand("active"));
+  bot.command("cancel", scheduleCommand("cancel"));
+
+  bot.command("groupsettings", async (ctx) => {
+    const chatId = ctx.chat.id.toString();
+    if (!isGroupChat(ctx.chat)) {
+      await reply(ctx, "👥 /groupsettings only works in groups.");
+      return;
+    }
+    const [setting, value] = ctx.match.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    if (!setting) {
+      await reply(ctx, formatGroupSettings(groups.get(chatId)));
+      return;
+    }
+    const userId = ctx.from!.id.toString();
+    if (!access.isOwner(userId) && !(await groupAdmins.isAdmin(chatId, userId))) {
+      await reply(ctx, "⛔ Only group admins can change group settings.");
+      return;
+    }
+    if (setting === "replies" && (value === "mention" || value === "all")) {
+      const updated = groups.update(chatId, { replies: value }, userId);
+      await reply(ctx, `✅ Updated\n\n${formatGroupSettings(updated)}`);
+    } else if (setting === "wallet" && (value === "admins" || value === "off")) {
+      const updated = groups.update(chatId, { wallet: value }, userId);
+      console.log(`👥 Wallet actions ${value} in group ${chatId} (by ${userId})`);
+      await reply(ctx, `✅ Updated\n\n${formatGroupSettings(updated)}`);
+    } else {
+      await reply(ctx, "Usage: /groupsettings [replies mention|all] [wallet admins|off]");
+    }
+  });
+
+  bot.command("history", async (ctx) => {
+    // /history [n] [token|action|all] — value-moving actions only unless "all" is given
+    const args = ctx.match.trim().split(/\s+/).filter(Boolean);
+    let limit = 10;
+    let showAll = false;
+    let token: string | undefined;
+    let action: string | undefined;
+    for (const arg of args) {
+      if (/^\d+$/.test(arg)) limit = Math.min(parseInt(arg, 10), 50);
+      else if (arg.toLowerCase() === "all") showAll = true;
+      else if (resolveToken(arg)) token = resolveToken(arg)!.symbol;
+      else action = arg;
+    }
+    // Other users only see their own chat's actions; the owner sees every chat's, but not in a group
+    const everyChat = access.isOwner(ctx.from!.id.toString()) && !isGroupChat(ctx.chat);
+    const chatId = everyChat ? undefined : ctx.chat.id.toString();
+    const entries = auditLog.read({ chatId, token, action, valueMovingOnly: !showAll && !action }).slice(-limit).reverse();
+    if (entries.length === 0) {
+      await reply(ctx, "📜 No matching actions in the log.");
+      return;
+    }
+    const lines = [`📜 Last ${entries.length} action(s)${token ? ` for ${token}` : ""}${action ? ` matching "${action}"` : ""}`, ""];
+    for (const entry of entries) lines.push(formatAuditEntry(entry));
+    await reply(ctx, lines.join("\n"));
+  });
+
+  bot.command("export", async (ctx) => {
+    if (!access.isOwner(ctx.from!.id.toString())) {
+      await reply(ctx, "⛔ Only the owner can export the audit log.");
+      return;
+    }
+    const ownerChat = process.env.OWNER_CHAT_ID || ctx.chat.id.toString();
+    const entries = auditLog.read();
+    const filename = `aibingwa-audit-${new Date().toISOString().slice(0, 10)}.csv`;
+    await bot.api.sendDocument(ownerChat, new InputFile(Buffer.from(toCsv(entries)), filename), {
+      caption: `📜 Audit log — ${entries.length} entries`,
+    });
+    if (ownerChat !== ctx.chat.id.toString()) await reply(ctx, "📤 Sent the audit log to the owner chat.");
+  });
+
+  bot.command("stats", async (ctx) => {
+    if (!access.isOwner(ctx.from!.id.toString())) {
+      await reply(ctx, "⛔ Only the owner can view stats.");
+      return;
+    }
+    await reply(ctx, formatStats());
+  });
+
+  bot.command("queue", async (ctx) => {
+    const chatId = ctx.chat.id.toString();
+    const now = Date.now();
+    const tasks = chatQueue.pending(chatId);
+    const writes = writeSlots.stats();
+    const lines = ["📥 Queue", ""];
+    if (tasks.length === 0) lines.push("Nothing pending in this chat.");
+    tasks.forEach((t, i) => {
+      const status = t.startedAt ? `running ${Math.round((now - t.startedAt) / 1000)}s` : `waiting ${Math.round((now - t.enqueuedAt) / 1000)}s`;
+      lines.push(`${i + 1}. "${t.label}" — ${status}`);
+    });
+    lines.push("", `Wallet actions: ${writes.active}/${writes.limit} running, ${writes.waiting} waiting`);
+    if (access.isOwner(ctx.from!.id.toString())) lines.push(`All chats: ${chatQueue.size()} message(s) queued`);
+    await reply(ctx, lines.join("\n"));
+  });
+
+  bot.command("balance", async (ctx) => {
+    await reply(ctx, "🔍 Checking balances...");
+    try {
+      await reply(ctx, await balanceResponse());
+    } catch (err: any) {
+      await reply(ctx, `❌ Error: ${err.message}`);
+    }
+  });
+
+  // Deterministic fast path — confident intents run directly, everything else goes to the agent
+  const handleIntent = async (ctx: MyContext, intent: ParsedIntent): Promise<boolean> => {
+    if (!intent.confident) return false;
+
+    // Write actions go through dispatchAction, which handles roles, limits and confirmation
+    const replyWithDispatch = async (actionName: string, args: Record<string, any>, recipient?: Recipient) => {
+      const result = await dispatchAction(actionName, args, recipient);
+      if (result.startsWith("Awaiting user confirmation")) return;
+      await reply(ctx, result.startsWith("Error") ? `❌ ${result}` : result);
+    };
+
+    switch (intent.action) {
+      case "send":
+      case "trade":
+      case "wrap":
+      case "unwrap": {
+        const action = await intentToAction(intent);
+        if (!action) return false;
+        if (typeof action === "string") {
+          await reply(ctx, `❌ ${action}`);
+          return true;
+        }
+        await replyWithDispatch(action.actionName, action.args, action.recipient);
+        return true;
+      }
+      case "balance": {
+        const token = intent.token ? resolveToken(intent.token) : null;
+        // "trade balance" names no token we know; let the agent make sense of it
+        if (intent.token && !token) return false;
+        if (!token?.address) {
+          await reply(ctx, await balanceResponse());
+          return true;
+        }
+        if (!(await callerWallet())) {
+          await reply(ctx, `👛 ${NO_WALLET}`);
+          return true;
+        }
+        const walletAddr = await getWalletAddress();
+        let balance: string;
+        try {
+          balance = token.symbol === "ETH"
+            ? await getEthBalance(walletAddr)
+            : await getTokenBalance(token.address, walletAddr, token.decimals);
+        } catch (err: any) {
+          await reply(ctx, `❌ Couldn't look up your ${token.symbol} balance: ${err.shortMessage ?? err.message}\nTry again in a moment.`);
+          return true;
+        }
+        await reply(ctx, formatBalanceResponse([{ symbol: token.symbol, balance }]));
+        return true;
+      }
+      case "price": {
+        const token = resolveToken(intent.token ?? "");
+        if (!token?.pythFeedId) return false;
+        const result = await getPrice(token.symbol);
+        let priceData = result;
+        try {
+          const parsed = JSON.parse(result);
+          if (!parsed.success) return false;
+          priceData = `$${parsed.price}`;
+        } catch {}
+        await reply(ctx, formatPriceResponse(token.symbol, priceData));
+        return true;
+      }
+      case "wallet":
+        await reply(ctx, await walletResponse());
+        return true;
+      case "help":
+        await reply(ctx, MESSAGES[userLanguage(ctx.from!.id.toString())].help);
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  // Queue free-text messages per chat. Not awaited, so other chats keep being served
+  // while this chat works through its queue.
+  bot.on("message:text", async (ctx, next) => {
+    const chatId = ctx.chat.id.toString();
+    const queued = chatQueue.enqueue(chatId, ctx.message.text.slice(0, 40), next);
+    if (!queued) {
+      await reply(ctx, "📥 I'm still working through your earlier messages — try again in a moment.");
+      return;
+    }
+    if (queued.position > 0) {
+      await reply(ctx, `📥 Queued — ${queued.position} message${queued.position === 1 ? "" : "s"} ahead of this one.`);
+    }
+  });
+
+  // Message handler — confident intents take the fast path, the rest go through the agent brain
+  bot.on("message:text", async (ctx) => {
+    const inGroup = isGroupChat(ctx.chat);
+    const text = inGroup ? stripBotMention(ctx.message.text, ctx.me.username) : ctx.message.text;
+    const userName = ctx.from?.first_name || "anon";
+    // Each member of a group gets their own conversation with the agent
+    const conversationId = inGroup ? `${ctx.chat.id}:${ctx.from.id}` : ctx.chat.id.toString();
+    
+    // Log user question
+    console.log(`\n📨 User (${userName}): ${text}`);
+
+    // Show typing indicator
+    await ctx.api.sendChatAction(ctx.chat.id, "typing");
+    
+    try {
+      const intent = parseNaturalLanguage(text);
+      if (await handleIntent(ctx, intent)) {
+        console.log(`⚡ Handled directly as "${intent.action}"\n`);
+        return;
+      }
+
+      // Everything else goes through the agent's brain
+      // This handles conversation context, follow-ups, and all 90+ skills including dynamic credentials.
+      // Without a chosen language, a greeting like "mambo" decides which one the agent answers in.
+      const language = languages.get(ctx.from.id.toString()) ?? intent.language ?? DEFAULT_LANGUAGE;
+      const hints = [languageHint(language), disabledSkillsHint(skillToggles.disabled(ctx.chat.id.toString()))].filter(Boolean).join(" ");
+      let response: string;
+      try {
+        response = await metrics.agentDuration.time({}, () =>
+          aibingwa.processMessage(conversationId, userName, hints ? `${hints} ${text}` : text),
+        );
+        metrics.agentRequests.inc({ outcome: "success" });
+      } catch (err) {
+        metrics.agentRequests.inc({ outcome: "error" });
+        throw err;
+      }
+      
+      // Log response
+      console.log(`🤖 Agent: ${response.substring(0, 200)}${response.length > 200 ? "..." : ""}\n`);
+      
+      await reply(ctx, response);
+    } catch (err: any) {
+      console.log(`❌ Error: ${err.message}\n`);
+      await reply(ctx, `❌ Error: ${err.message}`);
+    }
+  });
+
+  // Inline mode — price cards and the deposit address in any chat. Only Pyth prices and the
+  // wallet address are read here; nothing reachable from an inline query can move funds.
+  const inlineCacheSeconds = parseInt(process.env.INLINE_CACHE_SECONDS || "30", 10);
+  const inlinePrices = new TtlCache<{ price: number; fetchedAt: number }>(inlineCacheSeconds * 1000);
+
+  const inlinePriceCard = async (symbol: string): Promise<InlineQueryResultArticle | null> => {
+    const token = resolveToken(symbol);
+    if (!token?.pythFeedId) return null;
+    let cached = inlinePrices.get(token.symbol);
+    if (!cached) {
+      const price = parsePythPrice(await executeAction("PythActionProvider_fetch_price", { priceFeedID: token.pythFeedId }));
+      if (price === null) return null;
+      cached = { price, fetchedAt: Date.now() };
+      inlinePrices.set(token.symbol, cached);
+    }
+    return priceResult(token.symbol, token.name, cached.price, cached.fetchedAt);
+  };
+
+  const inlineDepositCard = async (): Promise<InlineQueryResultArticle | null> => {
+    const address = await getWalletAddress();
+    return address ? depositResult(address, network.name, network.explorerUrl, await names.lookupName(address)) : null;
+  };
+
+  bot.on("inline_query", async (ctx) => {
+    const request = parseInlineQuery(ctx.inlineQuery.query);
+    const results: InlineQueryResultArticle[] = [];
+    try {
+      if (request.kind !== "wallet") {
+        const card = await inlinePriceCard(request.kind === "price" ? request.token : "eth");
+        if (card) results.push(card);
+      }
+      if (request.kind !== "price") {
+        const card = await inlineDepositCard();
+        if (card) results.push(card);
+      }
+    } catch (err) {
+      console.error("Inline query failed:", err);
+    }
+    await ctx.answerInlineQuery(results, {
+      cache_time: inlineCacheSeconds,
+      // Per-chat wallets make the deposit address depend on who is asking
+      is_personal: !!deps.chatWallets,
+    });
+  });
+
+  bot.catch((err) => console.error("Bot error:", err));
+
+  return {
+    bot,
+    runAction: (actionName, args = {}, options = {}) => runRecordedAction(actionName, args, options),
+    executeAction: (actionName, args = {}) => executeAction(actionName, args),
+    notifyOwner,
+    startBackgroundJobs: () => backgroundJobs.forEach((start) => start()),
+    pendingWork: () => ({ inFlight, queued: chatQueue.size() }),
+  };
+}
@@ -0,0 +1,149 @@
+import { randomBytes } from "crypto";
+import { parseUnits } from "viem";
+
+// ============================================================
+// PENDING CONFIRMATIONS
+// ============================================================
+export interface TokenInfo {
+  symbol: string;
+  address: string;
+  decimals: number;
+}
+
+export interface ConfirmResolvers {
+  resolveToken: (input: string) => TokenInfo | null;
+  resolveAddress: (input: string) => Promise<{ address: string; display: string; previousAddress?: string }>;
+}
+
+export interface PendingAction {
+  id: string;
+  chatId: string;
+  userId: string;
+  userName: string;
+  actionName: string;
+  args: Record<string, any>;
+  summary: string;
+  createdAt: number;
+  expiresAt: number;
+  messageId?: number;
+  /** ENS name the recipient was given as, and the address it resolved to. */
+  recipient?: { name: string; address: string };
+}
+
+export class ConfirmationQueue {
+  private pending = new Map<string, PendingAction>();
+
+  constructor(private readonly timeoutMs: number) {}
+
+  create(entry: Omit<PendingAction, "id" | "createdAt" | "expiresAt">): PendingAction {
+    const now = Date.now();
+    const pending: PendingAction = {
+      ...entry,
+      id: randomBytes(6).toString("hex"),
+      createdAt: now,
+      expiresAt: now + this.timeoutMs,
+    };
+    this.pending.set(pending.id, pending);
+    return pending;
+  }
+
+  get(id: string): PendingAction | undefined {
+    return this.pending.get(id);
+  }
+
+  /** Removes and returns the entry, or undefined if it is unknown or has expired. */
+  take(id: string): PendingAction | undefined {
+    const pending = this.pending.get(id);
+    if (!pending) return undefined;
+    this.pending.delete(id);
+    return pending.expiresAt > Date.now() ? pending : undefined;
+  }
+
+  /** Removes and returns every entry past its deadline. */
+  sweep(): PendingAction[] {
+    const now = Date.now();
+    const expired: PendingAction[] = [];
+    for (const [id, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        expired.push(pending);
+        this.pending.delete(id);
+      }
+    }
+    return expired;
+  }
+
+  getTimeoutSeconds(): number {
+    return Math.round(this.timeoutMs / 1000);
+  }
+}
+
+// ============================================================
+// ACTION SUMMARIES
+// ============================================================
+function formatAmount(amount: string | undefined, token: TokenInfo | null, fallbackSymbol: string): string {
+  if (!amount) return "?";
+  const symbol = token?.symbol ?? fallbackSymbol;
+  if (!token) return `${amount} ${symbol} (raw: unknown decimals)`;
+  try {
+    return `${amount} ${symbol} (raw: ${parseUnits(amount, token.decimals).toString()})`;
+  } catch {
+    return `${amount} ${symbol} (raw: invalid amount)`;
+  }
+}
+
+function shortAddress(address: string): string {
+  return address ? `${address.slice(0, 6)}...${address.slice(-4)}` : "?";
+}
+
+async function formatRecipient(input: string | undefined, resolvers: ConfirmResolvers): Promise<string> {
+  if (!input) return "?";
+  const { address, display, previousAddress } = await resolvers.resolveAddress(input);
+  if (!address) return `${display} ⚠️ could not be resolved`;
+  const shown = display === address ? address : `${display}\n   ${address}`;
+  return previousAddress ? `${shown}\n   ⚠️ Was ${previousAddress} at your last send — check before confirming` : shown;
+}
+
+/** Builds a human-readable summary of a value-moving action for the confirmation prompt. */
+export async function describeAction(
+  actionName: string,
+  args: Record<string, any>,
+  resolvers: ConfirmResolvers,
+): Promise<string> {
+  const eth = resolvers.resolveToken("eth");
+  const weth = resolvers.resolveToken("weth");
+  const tokenFor = (address: string | undefined) => (address ? resolvers.resolveToken(address) : null);
+
+  switch (actionName) {
+    case "WalletActionProvider_native_transfer":
+      return `💸 Send\n` +
+        `Amount: ${formatAmount(args.value, eth, "ETH")}\n` +
+        `To: ${await formatRecipient(args.to, resolvers)}`;
+    case "ERC20ActionProvider_transfer": {
+      const token = tokenFor(args.tokenAddress);
+      return `💸 Send\n` +
+        `Amount: ${formatAmount(args.amount, token, shortAddress(args.tokenAddress))}\n` +
+        `Token: ${args.tokenAddress}\n` +
+        `To: ${await formatRecipient(args.destinationAddress, resolvers)}`;
+    }
+    case "ERC20ActionProvider_approve": {
+      const token = tokenFor(args.tokenAddress);
+      return `🔓 Approve spending\n` +
+        `Amount: ${formatAmount(args.amount, token, shortAddress(args.tokenAddress))}\n` +
+        `Spender: ${await formatRecipient(args.spenderAddress, resolvers)}`;
+    }
+    case "WethActionProvider_wrap_eth":
+      return `🔄 Wrap ETH → WETH\nAmount: ${formatAmount(args.amountToWrap, eth, "ETH")}`;
+    case "WethActionProvider_unwrap_eth":
+      return `🔄 Unwrap WETH → ETH\nAmount: ${formatAmount(args.amountToUnwrap, weth, "WETH")}`;
+    case "CdpSmartWalletActionProvider_swap": {
+      const from = tokenFor(args.fromToken);
+      const to = tokenFor(args.toToken);
+      return `🔁 Swap\n` +
+        `Sell: ${formatAmount(args.fromAmount, from, shortAddress(args.fromToken))}\n` +
+        `Buy: ${to?.symbol ?? args.toToken}\n` +
+        `Slippage: ${((args.slippageBps ?? 100) / 100).toFixed(2)}%`;
+    }
+    default:
+      return `⚙️ ${actionName}\n${JSON.stringify(args, null, 2)}`;
+  }
+}
@@ -0,0 +1,87 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+
+// ============================================================
+// ADDRESS BOOK — named recipients per chat
+// ============================================================
+export interface Contact {
+  name: string;
+  address: string;
+  /** ENS name or Basename the address was resolved from when the contact was added. */
+  ens?: string;
+  note?: string;
+  trusted: boolean;
+  addedBy: string;
+  addedAt: string;
+}
+
+const CONTACT_NAME = /^[a-z][a-z0-9_-]{0,31}$/;
+
+/** Contact names are short lowercase words so they can't be mistaken for addresses or ENS names. */
+export function isValidContactName(name: string): boolean {
+  return CONTACT_NAME.test(name);
+}
+
+export class ContactBook {
+  private contacts: Record<string, Contact[]> = {};
+
+  constructor(private readonly file: string) {
+    try {
+      if (existsSync(file)) {
+        this.contacts = JSON.parse(readFileSync(file, "utf-8"));
+        const count = Object.values(this.contacts).reduce((n, list) => n + list.length, 0);
+        console.log(`📇 Loaded ${count} contact(s)`);
+      }
+    } catch (err) {
+      console.error("Failed to load contacts:", err);
+    }
+  }
+
+  /** Adds or replaces a contact in a chat's address book. */
+  set(chatId: string, contact: Omit<Contact, "addedAt">): Contact {
+    const saved: Contact = { ...contact, name: contact.name.toLowerCase(), addedAt: new Date().toISOString() };
+    const list = (this.contacts[chatId] ?? []).filter((c) => c.name !== saved.name);
+    list.push(saved);
+    this.contacts[chatId] = list.sort((a, b) => a.name.localeCompare(b.name));
+    this.save();
+    return saved;
+  }
+
+  remove(chatId: string, name: string): boolean {
+    const list = this.contacts[chatId] ?? [];
+    const remaining = list.filter((c) => c.name !== name.toLowerCase());
+    if (remaining.length === list.length) return false;
+    if (remaining.length > 0) this.contacts[chatId] = remaining;
+    else delete this.contacts[chatId];
+    this.save();
+    return true;
+  }
+
+  get(chatId: string, name: string): Contact | undefined {
+    return this.contacts[chatId]?.find((c) => c.name === name.toLowerCase());
+  }
+
+  /** Reverse lookup, so a raw address in a confirmation can be shown as the contact it belongs to. */
+  findByAddress(chatId: string, address: string): Contact | undefined {
+    return this.contacts[chatId]?.find((c) => c.address.toLowerCase() === address.toLowerCase());
+  }
+
+  forChat(chatId: string): Contact[] {
+    return [...(this.contacts[chatId] ?? [])];
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(this.file, JSON.stringify(this.contacts, null, 2));
+    } catch (err) {
+      console.error("Failed to save contacts:", err);
+    }
+  }
+}
+
+export function formatContact(contact: Contact): string {
+  const source = contact.ens ? ` (${contact.ens})` : "";
+  const note = contact.note ? `\n   ${contact.note}` : "";
+  return `${contact.trusted ? "⭐ " : ""}${contact.name}${source}\n   ${contact.address}${note}`;
+}
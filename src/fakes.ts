@@ -0,0 +1,293 @@
+import type { Transformer } from "grammy";
+import type { Update, UserFromGetMe } from "grammy/types";
+import type { AgentBingwa } from "aibingwa-agent";
+import type { ActionSource } from "./actions.js";
+import type { BotInstance, ChainClient, ChatWallet, ChatWallets } from "./bot.js";
+import type { EnsClient } from "./names.js";
+
+// ============================================================
+// IN-MEMORY FAKES — build the bot with createBot and no network
+// ============================================================
+export const FAKE_WALLET_ADDRESS = "0x1111111111111111111111111111111111111111";
+
+export type FakeActionHandler = (args: Record<string, any>) => string | Promise<string>;
+
+export interface FakeAgentKit extends ActionSource {
+  calls: Array<{ name: string; args: Record<string, any> }>;
+}
+
+/**
+ * AgentKit stand-in. Wallet details and Pyth prices answer by default (every
+ * feed is $3000); pass handlers to add or override actions, or to throw.
+ */
+export function createFakeAgentKit(handlers: Record<string, FakeActionHandler> = {}): FakeAgentKit {
+  const all: Record<string, FakeActionHandler> = {
+    WalletActionProvider_get_wallet_details: () =>
+      `Wallet Details:\n- Provider: fake\n- Address: ${FAKE_WALLET_ADDRESS}\n- Network: base-sepolia`,
+    PythActionProvider_fetch_price: () => JSON.stringify({ success: true, price: "3000" }),
+    ...handlers,
+  };
+  const calls: FakeAgentKit["calls"] = [];
+  return {
+    calls,
+    getActions: () => Object.entries(all).map(([name, handler]) => ({
+      name,
+      invoke: async (args: Record<string, any>) => {
+        calls.push({ name, args });
+        return handler(args);
+      },
+    })),
+  };
+}
+
+/** Per-chat wallets for createBot's chatWallets; each chat gets its own fake AgentKit and address. */
+export function createFakeChatWallets(): ChatWallets & { wallets: Map<string, ChatWallet & { agentKit: FakeAgentKit }> } {
+  const wallets = new Map<string, ChatWallet & { agentKit: FakeAgentKit }>();
+  return {
+    wallets,
+    get: async (chatId) => wallets.get(chatId) ?? null,
+    create: async (chatId) => {
+      const existing = wallets.get(chatId);
+      if (existing) return existing;
+      const address = `0x${(wallets.size + 2).toString(16).padStart(40, "0")}`;
+      const wallet = {
+        address,
+        agentKit: createFakeAgentKit({
+          WalletActionProvider_get_wallet_details: () => `Wallet Details:\n- Provider: fake\n- Address: ${address}\n- Network: base-sepolia`,
+        }),
+      };
+      wallets.set(chatId, wallet);
+      return wallet;
+    },
+  };
+}
+
+export interface FakeChainState {
+  ethBalance: bigint;
+  blockNumber: bigint;
+  /** Keyed by lowercase token address. */
+  tokenBalances: Record<string, bigint>;
+  /** ERC20 metadata for addToken, keyed by lowercase token address. */
+  tokenMetadata: Record<string, { symbol: string; name: string; decimals: number }>;
+}
+
+// Answers the handful of contract reads the bot makes: balanceOf, ERC20 metadata and Multicall3's getEthBalance
+function fakeRead(state: FakeChainState, call: { address: string; functionName: string }): unknown {
+  const address = call.address.toLowerCase();
+  switch (call.functionName) {
+    case "getEthBalance":
+      return state.ethBalance;
+    case "balanceOf":
+      return state.tokenBalances[address] ?? 0n;
+    case "symbol":
+    case "name":
+    case "decimals": {
+      const metadata = state.tokenMetadata[address];
+      if (!metadata) throw new Error(`execution reverted: no contract at ${call.address}`);
+      return metadata[call.functionName];
+    }
+    default:
+      throw new Error(`Fake chain client can't answer ${call.functionName}`);
+  }
+}
+
+export function createFakeChainClient(state: Partial<FakeChainState> = {}): ChainClient & { state: FakeChainState } {
+  const full: FakeChainState = { ethBalance: 0n, blockNumber: 1n, tokenBalances: {}, tokenMetadata: {}, ...state };
+  const client = {
+    state: full,
+    getBalance: async () => full.ethBalance,
+    // An empty chain as far as the transfer watcher can tell
+    getBlockNumber: async () => full.blockNumber,
+    getBlock: async ({ blockNumber }: { blockNumber?: bigint } = {}) =>
+      ({ number: blockNumber ?? full.blockNumber, timestamp: BigInt(Math.floor(Date.now() / 1000)), transactions: [] }),
+    getLogs: async () => [],
+    getCode: async () => "0x6080",
+    readContract: async (call: { address: string; functionName: string }) => fakeRead(full, call),
+    multicall: async ({ contracts }: { contracts: Array<{ address: string; functionName: string }> }) =>
+      contracts.map((call) => {
+        try {
+          return { status: "success", result: fakeRead(full, call) };
+        } catch (error) {
+          return { status: "failure", error };
+        }
+      }),
+  };
+  // The viem method signatures are heavily generic; the fake only covers the calls above
+  return client as unknown as ChainClient & { state: FakeChainState };
+}
+
+/** ENS stand-in: forward records keyed by name, primary names keyed by lowercase address. */
+export function createFakeEnsClient(
+  records: Record<string, string> = {},
+  primaryNames: Record<string, string> = {},
+): EnsClient {
+  const client = {
+    getEnsAddress: async ({ name }: { name: string }) => records[name] ?? null,
+    getEnsName: async ({ address }: { address: string }) => primaryNames[address.toLowerCase()] ?? null,
+  };
+  return client as unknown as EnsClient;
+}
+
+export interface FakeSkill {
+  name: string;
+  category: string;
+  description?: string;
+  examples?: string[];
+  run?: () => string;
+}
+
+/**
+ * AgentBingwa stand-in. `respond` plays the brain for free text; the skill
+ * list backs /skills and grows through `skills.register`. Pass
+ * `registerSkills: () => {}` to createBot alongside it, since the package's
+ * registerAllSkills expects the real registry.
+ */
+export function createFakeAgent(
+  respond: (chatId: string, userName: string, text: string) => string | Promise<string> = (_c, _u, text) => `echo: ${text}`,
+  skills: FakeSkill[] = [{ name: "fake_skill", category: "test" }],
+): AgentBingwa & { messages: Array<{ chatId: string; userName: string; text: string }> } {
+  const messages: Array<{ chatId: string; userName: string; text: string }> = [];
+  const agent = {
+    messages,
+    skills: {
+      getAll: () => skills,
+      register: (skill: FakeSkill) => {
+        skills.push(skill);
+      },
+    },
+    getBankrPrompt: () => "",
+    trader: undefined,
+    x402Client: undefined,
+    twitterClient: undefined,
+    processMessage: async (chatId: string, userName: string, text: string) => {
+      messages.push({ chatId, userName, text });
+      return respond(chatId, userName, text);
+    },
+  };
+  return agent as unknown as AgentBingwa & { messages: typeof messages };
+}
+
+export const FAKE_BOT_INFO: UserFromGetMe = {
+  id: 42,
+  is_bot: true,
+  first_name: "AIBINGWA Test",
+  username: "aibingwa_test_bot",
+  can_join_groups: true,
+  can_read_all_group_messages: false,
+  supports_inline_queries: false,
+  can_connect_to_business: false,
+  has_main_web_app: false,
+  has_topics_enabled: false,
+  allows_users_to_create_topics: false,
+  can_manage_bots: false,
+  supports_join_request_queries: false,
+};
+
+export interface FakeTelegram {
+  token: string;
+  botInfo: UserFromGetMe;
+  transformer: Transformer;
+  /** Every Bot API call the bot made, in order. */
+  calls: Array<{ method: string; payload: Record<string, any> }>;
+  /** Text of every sendMessage/editMessageText call. */
+  sentTexts: () => string[];
+  /** getChatMember statuses keyed by "chatId:userId"; anyone else is a plain "member". */
+  memberStatus: Record<string, string>;
+}
+
+/** Telegram transport that records calls instead of sending them and answers each with a plausible result. */
+export function createFakeTelegram(): FakeTelegram {
+  const calls: FakeTelegram["calls"] = [];
+  const memberStatus: Record<string, string> = {};
+  let nextMessageId = 1;
+  const transformer: Transformer = async (_prev, method, payload) => {
+    const body = (payload ?? {}) as Record<string, any>;
+    calls.push({ method, payload: body });
+    const result = method === "getMe"
+      ? FAKE_BOT_INFO
+      : method === "getChatMember"
+        ? { status: memberStatus[`${body.chat_id}:${body.user_id}`] ?? "member", user: { id: body.user_id, is_bot: false, first_name: "Member" } }
+      : method.startsWith("send")
+        ? { message_id: nextMessageId++, date: Math.floor(Date.now() / 1000), chat: { id: body.chat_id, type: "private" }, text: body.text }
+        : true;
+    return { ok: true, result } as Awaited<ReturnType<Transformer>>;
+  };
+  return {
+    token: "0:fake",
+    botInfo: FAKE_BOT_INFO,
+    transformer,
+    calls,
+    sentTexts: () => calls.filter((c) => c.method === "sendMessage" || c.method === "editMessageText").map((c) => c.payload.text),
+    memberStatus,
+  };
+}
+
+let nextUpdateId = 1;
+
+/**
+ * A text message update, in a private chat unless `group` is set. Leading
+ * "/command" tokens get a bot_command entity and "@botname" a mention entity,
+ * as Telegram sends them; `replyToBot` makes it a reply to one of the bot's messages.
+ */
+export function textUpdate(
+  text: string,
+  from: { userId?: number; chatId?: number; firstName?: string; group?: boolean; replyToBot?: boolean } = {},
+): Update {
+  const userId = from.userId ?? 1001;
+  const command = text.match(/^\/\S+/)?.[0];
+  const mention = `@${FAKE_BOT_INFO.username}`;
+  const entities = [
+    ...(command ? [{ type: "bot_command" as const, offset: 0, length: command.length }] : []),
+    ...(text.includes(mention) ? [{ type: "mention" as const, offset: text.indexOf(mention), length: mention.length }] : []),
+  ];
+  const chat = from.group
+    ? { id: from.chatId ?? -100123, type: "supergroup" as const, title: "Test Group" }
+    : { id: from.chatId ?? userId, type: "private" as const, first_name: from.firstName ?? "Tester" };
+  const date = Math.floor(Date.now() / 1000);
+  return {
+    update_id: nextUpdateId++,
+    message: {
+      message_id: nextUpdateId,
+      date,
+      chat,
+      from: { id: userId, is_bot: false, first_name: from.firstName ?? "Tester" },
+      text,
+      ...(entities.length > 0 ? { entities } : {}),
+      ...(from.replyToBot
+        ? { reply_to_message: { message_id: 1, date, chat, from: { id: FAKE_BOT_INFO.id, is_bot: true, first_name: FAKE_BOT_INFO.first_name }, text: "…", reply_to_message: undefined } }
+        : {}),
+    },
+  };
+}
+
+/** A tap on an inline keyboard button, e.g. "confirm:<id>", under one of the bot's messages in a private chat. */
+export function callbackUpdate(data: string, from: { userId?: number; messageId?: number } = {}): Update {
+  const userId = from.userId ?? 1001;
+  return {
+    update_id: nextUpdateId++,
+    callback_query: {
+      id: String(nextUpdateId),
+      from: { id: userId, is_bot: false, first_name: "Tester" },
+      chat_instance: "fake",
+      data,
+      message: {
+        message_id: from.messageId ?? 1,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: userId, type: "private", first_name: "Tester" },
+        from: { id: FAKE_BOT_INFO.id, is_bot: true, first_name: FAKE_BOT_INFO.first_name },
+        text: "…",
+      },
+    },
+  };
+}
+
+/** Resolves once no update is being handled and no chat queue has work left. */
+export async function waitForIdle(instance: Pick<BotInstance, "pendingWork">, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const { inFlight, queued } = instance.pendingWork();
+    if (inFlight === 0 && queued === 0) return;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error(`Bot still busy after ${timeoutMs}ms`);
+}
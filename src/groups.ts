@@ -0,0 +1,112 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import type { Chat, Message } from "grammy/types";
+
+// ============================================================
+// GROUP CHATS — who the bot answers and who may move funds
+// ============================================================
+/** "mention": only mentions, replies to the bot and commands. "all": every message. */
+export type GroupReplyMode = "mention" | "all";
+/** "admins": group admins with a trader role may run wallet actions. "off": nobody may. */
+export type GroupWalletAccess = "admins" | "off";
+
+export interface GroupSettings {
+  replies: GroupReplyMode;
+  wallet: GroupWalletAccess;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+export const DEFAULT_GROUP_SETTINGS: GroupSettings = { replies: "mention", wallet: "admins" };
+
+export function isGroupChat(chat: Pick<Chat, "type">): boolean {
+  return chat.type === "group" || chat.type === "supergroup";
+}
+
+/** Telegram gives groups and supergroups negative ids; private chats use the user's positive id. */
+export function isGroupChatId(chatId: string): boolean {
+  return chatId.startsWith("-");
+}
+
+/** A mention of the bot, a reply to one of its messages, or a command. */
+export function isAddressedToBot(message: Message, me: { id: number; username: string }): boolean {
+  if (message.reply_to_message?.from?.id === me.id) return true;
+  const text = message.text ?? message.caption ?? "";
+  const entities = message.entities ?? message.caption_entities ?? [];
+  return entities.some((e) =>
+    (e.type === "bot_command" && e.offset === 0) ||
+    (e.type === "mention" && text.slice(e.offset, e.offset + e.length).toLowerCase() === `@${me.username.toLowerCase()}`) ||
+    (e.type === "text_mention" && e.user.id === me.id),
+  );
+}
+
+/** The message text without "@botname", so "@aibingwa_bot price of eth" parses like "price of eth". */
+export function stripBotMention(text: string, username: string): string {
+  const escaped = username.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return text.replace(new RegExp(`@${escaped}\\b`, "gi"), " ").replace(/\s+/g, " ").trim();
+}
+
+export class GroupSettingsStore {
+  private groups: Record<string, GroupSettings> = {};
+
+  constructor(private readonly file: string) {
+    try {
+      if (existsSync(file)) {
+        this.groups = JSON.parse(readFileSync(file, "utf-8"));
+        console.log(`👥 Loaded settings for ${Object.keys(this.groups).length} group(s)`);
+      }
+    } catch (err) {
+      console.error("Failed to load group settings:", err);
+    }
+  }
+
+  get(chatId: string): GroupSettings {
+    return { ...DEFAULT_GROUP_SETTINGS, ...this.groups[chatId] };
+  }
+
+  update(chatId: string, changes: Partial<Pick<GroupSettings, "replies" | "wallet">>, userId: string): GroupSettings {
+    const updated = { ...this.get(chatId), ...changes, updatedBy: userId, updatedAt: new Date().toISOString() };
+    this.groups[chatId] = updated;
+    this.save();
+    return updated;
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(this.file, JSON.stringify(this.groups, null, 2));
+    } catch (err) {
+      console.error("Failed to save group settings:", err);
+    }
+  }
+}
+
+/** Group admin lookups, cached so a burst of actions doesn't cost a getChatMember call each. */
+export class GroupAdminCache {
+  private cache = new Map<string, { isAdmin: boolean; at: number }>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly getStatus: (chatId: string, userId: string) => Promise<string>,
+  ) {}
+
+  async isAdmin(chatId: string, userId: string): Promise<boolean> {
+    const key = `${chatId}:${userId}`;
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.at < this.ttlMs) return cached.isAdmin;
+    // A failed lookup counts as "not an admin" and isn't cached
+    const status = await this.getStatus(chatId, userId).catch(() => null);
+    const isAdmin = status === "creator" || status === "administrator";
+    if (status) this.cache.set(key, { isAdmin, at: Date.now() });
+    return isAdmin;
+  }
+}
+
+export function formatGroupSettings(settings: GroupSettings): string {
+  return `👥 Group Settings\n\n` +
+    `Replies: ${settings.replies === "all" ? "every message" : "mentions, replies and commands only"}\n` +
+    `Wallet actions: ${settings.wallet === "off" ? "off" : "group admins (who also have a trader role)"}\n\n` +
+    `Admins can change them:\n` +
+    `/groupsettings replies mention|all\n` +
+    `/groupsettings wallet admins|off`;
+}
@@ -0,0 +1,247 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+
+// ============================================================
+// LANGUAGES & MESSAGE CATALOG
+// ============================================================
+export type Language = "en" | "sw";
+
+export const LANGUAGES: Record<Language, string> = {
+  en: "English",
+  sw: "Kiswahili",
+};
+
+export type CasualKind = "thanks" | "good" | "who" | "gm" | "gn";
+
+export interface Catalog {
+  greetings: string[];
+  casual: Record<CasualKind, string[]>;
+  help: string;
+  openclaw: string;
+  languageUsage: string;
+  languageSet: string;
+}
+
+/** Phrases that mark a message as a greeting or casual remark, per language. */
+export const PHRASES: Record<Language, { greetings: string[]; casual: Record<CasualKind, RegExp> }> = {
+  en: {
+    greetings: ["hey", "hi", "hello", "yo", "sup", "what's up", "whats up", "wassup", "howdy", "hola", "ayo"],
+    // Checked in order, so "good morning" reaches gm before the generic good
+    casual: {
+      thanks: /^(thanks|thank you|thx|ty|appreciate)/,
+      gm: /^(gm|good morning)\b/,
+      gn: /^(gn|good night)\b/,
+      good: /^(good|nice|cool|great|awesome|dope|fire|lit)\b/,
+      who: /who are you|what are you|about you/,
+    },
+  },
+  sw: {
+    // "sasa" and "salama" are left out: they start ordinary requests too ("sasa tuma 5 usdc")
+    greetings: ["mambo", "habari", "hujambo", "jambo", "vipi", "niaje", "shikamoo", "hodi"],
+    casual: {
+      thanks: /^(asante|asanteni|shukrani|nashukuru)/,
+      good: /^(poa|safi|nzuri|bomba|freshi)/,
+      who: /wewe ni nani|nani wewe|unafanya nini/,
+      gm: /^(asubuhi njema|za asubuhi)/,
+      gn: /^(usiku mwema|lala salama|ulale salama)/,
+    },
+  },
+};
+
+export const MESSAGES: Record<Language, Catalog> = {
+  en: {
+    greetings: [
+      "Yo! What's good? 🔥 Your favorite blockchain assistant is here. What we doing today — checking bags, making moves, or just vibing?",
+      "Ayyy, what's up! 👋 AIBINGWA in the building. Need me to check your wallet, swap some tokens, or send some bread? Just say the word.",
+      "Hey hey! 🚀 Your on-chain homie is ready. Balances, trades, transfers — whatever you need, I got you. What's the play?",
+      "Sup! 💎 Ready to make some moves on Base. Just tell me what you need — I speak both crypto and human lol",
+      "What's poppin! 🤝 AIBINGWA at your service. Whether it's checking prices, swapping tokens, or sending USDC — I'm locked in. Let's go!",
+    ],
+    casual: {
+      thanks: [
+        "Anytime fam! 🤝 That's what I'm here for.",
+        "No worries! Hit me up whenever you need anything else 💪",
+        "Got you! Always ready when you are 🔥",
+      ],
+      good: [
+        "Glad to hear it! 😎 Need anything else?",
+        "Let's keep the momentum going! What's next? 🚀",
+      ],
+      who: [
+        "I'm AIBINGWA — your personal AI blockchain assistant on Base Mainnet 🧠⛓️\n\nI can check balances, swap tokens, send crypto, fetch prices, and more. Think of me as your on-chain co-pilot. Just tell me what you need!",
+      ],
+      gm: [
+        "GM! ☀️ Another day, another opportunity. What are we doing today?",
+        "GM fam! 🌅 Ready to make some moves? Just say the word.",
+      ],
+      gn: ["GN! 🌙 Rest up, we go again tomorrow. Your bags are safe with me 💎"],
+    },
+    help: `🤖 **AIBINGWA Bot Commands**\n\n` +
+      `*Wallet & Balance:*\n` +
+      `• /balance — Check your balances\n` +
+      `• /wallet — Show wallet address\n\n` +
+      `*Trading:*\n` +
+      `• "Swap 5 USDC for ETH"\n` +
+      `• "Buy $10 of DEGEN"\n\n` +
+      `*Transfers:*\n` +
+      `• "Send 10 USDC to vitalik.eth"\n` +
+      `• "Send 10 USDC to alice" — /contacts, /addcontact, /delcontact\n\n` +
+      `*Prices:*\n` +
+      `• "Price of ETH"\n\n` +
+      `*Skills & Automation:*\n` +
+      `• /skills — See all 90+ available skills\n` +
+      `• /openclaw — OpenClaw ecosystem commands\n\n` +
+      `*Language:*\n` +
+      `• /language — English or Kiswahili\n\n` +
+      `*AI Agent:*\n` +
+      `• Just chat naturally — I'll figure it out! 🧠`,
+    openclaw: `🌐 **OpenClaw Ecosystem Skills**\n\n` +
+      `**Agent Messaging:**\n` +
+      `• Botchan — Post messages to agent feeds\n` +
+      `• Send to other agents onchain\n\n` +
+      `**Token Operations:**\n` +
+      `• Clanker — Deploy ERC20 tokens with Uniswap V4\n` +
+      `• Advanced vesting & airdrops\n\n` +
+      `**Charity & Social:**\n` +
+      `• Endaoment — Donate to 501(c)(3) nonprofits\n` +
+      `• Support causes onchain\n\n` +
+      `**Identity & Privacy:**\n` +
+      `• ENS — Domain name operations\n` +
+      `• Veil — Private/shielded transactions\n\n` +
+      `**Gaming & Auctions:**\n` +
+      `• QRCoin — QR code auctions\n` +
+      `• Yoink — Capture-the-flag gaming\n\n` +
+      `**Agent Registration:**\n` +
+      `• ERC-8004 — Register agent identity\n\n` +
+      `**Try asking:**\n` +
+      `• "Deploy a token called MyToken"\n` +
+      `• "Donate $10 to GiveDirectly"\n` +
+      `• "Post to Botchan feed"\n` +
+      `• "Send private transaction via Veil"`,
+    languageUsage: "🌍 Your language: {language}\n\nChange it with /language en or /language sw",
+    languageSet: "✅ Done — I'll reply in English from now on.",
+  },
+  sw: {
+    greetings: [
+      "Mambo! 🔥 Msaidizi wako wa blockchain yuko hapa. Leo tunafanya nini — kuangalia salio, kufanya biashara, au kupiga stori tu?",
+      "Habari! 👋 AIBINGWA yuko kazini. Nikuangalizie wallet, nibadilishe tokeni, au nitume pesa? Niambie tu.",
+      "Vipi! 🚀 Niko tayari. Salio, biashara, uhamisho — chochote unachohitaji, nakushughulikia. Tunaanza na nini?",
+      "Niaje! 💎 Tuko tayari kufanya mambo kwenye Base. Niambie unachohitaji — naelewa crypto na Kiswahili pia 😄",
+      "Karibu! 🤝 AIBINGWA yuko kwa huduma yako. Kuangalia bei, kubadilisha tokeni, au kutuma USDC — twende kazi!",
+    ],
+    casual: {
+      thanks: [
+        "Karibu sana! 🤝 Ndiyo kazi yangu.",
+        "Hakuna shida! Niambie ukihitaji kitu kingine 💪",
+        "Poa kabisa! Niko tayari wakati wowote 🔥",
+      ],
+      good: [
+        "Safi sana! 😎 Unahitaji kitu kingine?",
+        "Tuendelee hivyo! Nini kinafuata? 🚀",
+      ],
+      who: [
+        "Mimi ni AIBINGWA — msaidizi wako wa AI wa blockchain kwenye Base 🧠⛓️\n\nNaweza kuangalia salio, kubadilisha tokeni, kutuma crypto, kuleta bei na mengine mengi. Niambie tu unachohitaji!",
+      ],
+      gm: [
+        "Habari za asubuhi! ☀️ Siku mpya, fursa mpya. Leo tunafanya nini?",
+        "Asubuhi njema! 🌅 Tuko tayari kufanya mambo? Niambie tu.",
+      ],
+      gn: ["Usiku mwema! 🌙 Pumzika, kesho tunaendelea. Mali yako iko salama nami 💎"],
+    },
+    help: `🤖 **Amri za AIBINGWA**\n\n` +
+      `*Wallet na Salio:*\n` +
+      `• /balance — Angalia salio lako\n` +
+      `• /wallet — Onyesha anwani ya wallet\n\n` +
+      `*Biashara:*\n` +
+      `• "Swap 5 USDC for ETH"\n` +
+      `• "Buy $10 of DEGEN"\n\n` +
+      `*Kutuma:*\n` +
+      `• "Send 10 USDC to vitalik.eth"\n` +
+      `• "Send 10 USDC to alice" — /contacts, /addcontact, /delcontact\n\n` +
+      `*Bei:*\n` +
+      `• "Price of ETH"\n\n` +
+      `*Ujuzi na Otomatiki:*\n` +
+      `• /skills — Ona ujuzi wote 90+\n` +
+      `• /openclaw — Amri za OpenClaw\n\n` +
+      `*Lugha:*\n` +
+      `• /language — English au Kiswahili\n\n` +
+      `*Wakala wa AI:*\n` +
+      `• Ongea nami kawaida — nitaelewa! 🧠`,
+    openclaw: `🌐 **Ujuzi wa OpenClaw**\n\n` +
+      `**Ujumbe kati ya Mawakala:**\n` +
+      `• Botchan — Tuma ujumbe kwenye feed za mawakala\n` +
+      `• Tuma kwa mawakala wengine onchain\n\n` +
+      `**Tokeni:**\n` +
+      `• Clanker — Tengeneza tokeni za ERC20 kwa Uniswap V4\n` +
+      `• Vesting na airdrop\n\n` +
+      `**Misaada:**\n` +
+      `• Endaoment — Changia mashirika ya 501(c)(3)\n` +
+      `• Saidia jamii onchain\n\n` +
+      `**Utambulisho na Faragha:**\n` +
+      `• ENS — Huduma za majina ya domain\n` +
+      `• Veil — Miamala ya siri\n\n` +
+      `**Michezo na Minada:**\n` +
+      `• QRCoin — Minada ya QR code\n` +
+      `• Yoink — Mchezo wa kunyakua bendera\n\n` +
+      `**Usajili wa Wakala:**\n` +
+      `• ERC-8004 — Sajili utambulisho wa wakala\n\n` +
+      `**Jaribu kuuliza:**\n` +
+      `• "Tengeneza tokeni inayoitwa MyToken"\n` +
+      `• "Changia $10 kwa GiveDirectly"\n` +
+      `• "Tuma ujumbe kwenye Botchan"\n` +
+      `• "Tuma muamala wa siri kupitia Veil"`,
+    languageUsage: "🌍 Lugha yako: {language}\n\nIbadilishe kwa /language en au /language sw",
+    languageSet: "✅ Sawa — kuanzia sasa nitakujibu kwa Kiswahili.",
+  },
+};
+
+export function isLanguage(value: string): value is Language {
+  return Object.hasOwn(LANGUAGES, value);
+}
+
+/** Accepts codes and names: "sw", "swahili", "Kiswahili", "en", "english". */
+export function parseLanguage(input: string): Language | null {
+  const lower = input.trim().toLowerCase();
+  if (isLanguage(lower)) return lower;
+  const match = (Object.entries(LANGUAGES) as Array<[Language, string]>)
+    .find(([, name]) => name.toLowerCase() === lower || name.toLowerCase().replace(/^ki/, "") === lower);
+  return match ? match[0] : null;
+}
+
+export const DEFAULT_LANGUAGE: Language =
+  process.env.DEFAULT_LANGUAGE && isLanguage(process.env.DEFAULT_LANGUAGE) ? process.env.DEFAULT_LANGUAGE : "en";
+
+/** Prefixed to agent messages so the brain answers in the user's language. */
+export function languageHint(language: Language): string {
+  return `[Reply in ${LANGUAGES[language]}]`;
+}
+
+// ============================================================
+// PER-USER LANGUAGE
+// ============================================================
+export class LanguageStore {
+  private languages: Record<string, Language> = {};
+
+  constructor(private readonly file: string) {
+    try {
+      if (existsSync(file)) this.languages = JSON.parse(readFileSync(file, "utf-8"));
+    } catch (err) {
+      console.error("Failed to load languages:", err);
+    }
+  }
+
+  /** The user's chosen language, or undefined if they never picked one. */
+  get(userId: string): Language | undefined {
+    return this.languages[userId];
+  }
+
+  set(userId: string, language: Language): void {
+    this.languages[userId] = language;
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(this.file, JSON.stringify(this.languages, null, 2));
+    } catch (err) {
+      console.error("Failed to save languages:", err);
+    }
+  }
+}
@@ -1,201 +1,57 @@
-import { Bot, Context, session, SessionFlavor } from "grammy";
+import { webhookCallback } from "grammy";
 import {
   AgentKit,
+  CdpSmartWalletProvider,
   cdpApiActionProvider,
   cdpSmartWalletActionProvider,
   erc20ActionProvider,
   pythActionProvider,
-  CdpSmartWalletProvider,
   walletActionProvider,
   wethActionProvider,
 } from "@coinbase/agentkit";
-import { createPublicClient, http, formatUnits, parseUnits, isAddress, getAddress } from "viem";
-import { base, mainnet } from "viem/chains";
-import { normalize } from "viem/ens";
-import { readFileSync, writeFileSync, existsSync } from "fs";
+import { createPublicClient, http } from "viem";
+import { mainnet } from "viem/chains";
 import { join, dirname } from "path";
 import { fileURLToPath } from "url";
 import "dotenv/config";
 
 // Import from aibingwa-agent package
-import {
-  AgentBingwa,
-  registerAllSkills,
-} from "aibingwa-agent";
+import { AgentBingwa, registerAllSkills } from "aibingwa-agent";
+import { loadTokenRegistry, checkTokenContracts, tokenRegistryFile } from "./tokens.js";
+import { getNetwork, writesAllowed } from "./network.js";
+import { startHttpServer, RequestHandler } from "./server.js";
+import { renderMetrics } from "./metrics.js";
+import { createBot, ChatWallet, ChatWallets } from "./bot.js";
+import { WalletData, ChatWalletStore, loadWalletData, saveWalletData, configureWallet } from "./wallet.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const WALLET_DATA_FILE = join(__dirname, "..", "wallet-data.json");
-
-// ============================================================
-// TOKEN REGISTRY — aliases, addresses, decimals, Pyth feed IDs
-// ============================================================
-const TOKEN_REGISTRY: Record<string, {
-  symbol: string;
-  name: string;
-  address: string;
-  decimals: number;
-  pythFeedId?: string;
-}> = {
-  eth: {
-    symbol: "ETH",
-    name: "Ethereum",
-    address: "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE",
-    decimals: 18,
-    pythFeedId: "0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace",
-  },
-  weth: {
-    symbol: "WETH",
-    name: "Wrapped Ether",
-    address: "0x4200000000000000000000000000000000000006",
-    decimals: 18,
-    pythFeedId: "0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace",
-  },
-  usdc: {
-    symbol: "USDC",
-    name: "USD Coin",
-    address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
-    decimals: 6,
-    pythFeedId: "0xeaa020c61cc479712813461ce153894a96a6c00b21ed0cfc2798d1f9a9e9c94a",
-  },
-  dai: {
-    symbol: "DAI",
-    name: "Dai Stablecoin",
-    address: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
-    decimals: 18,
-    pythFeedId: "0xb0948a5e5313200c632b51bb5ca32f6de0d36e9950a942d19751e6f20c30bc14",
-  },
-  btc: {
-    symbol: "BTC",
-    name: "Bitcoin",
-    address: "",
-    decimals: 8,
-    pythFeedId: "0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43",
-  },
-  sol: {
-    symbol: "SOL",
-    name: "Solana",
-    address: "",
-    decimals: 9,
-    pythFeedId: "0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d",
-  },
-  cbeth: {
-    symbol: "cbETH",
-    name: "Coinbase Wrapped Staked ETH",
-    address: "0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22",
-    decimals: 18,
-  },
-  pepe: {
-    symbol: "PEPE",
-    name: "Pepe",
-    address: "0x6982508145454Ce325dDbE47a25d4ec3d2311933",
-    decimals: 18,
-  },
-  degen: {
-    symbol: "DEGEN",
-    name: "Degen",
-    address: "0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed",
-    decimals: 18,
-  },
-  bnkr: {
-    symbol: "BNKR",
-    name: "Bankr",
-    address: "",
-    decimals: 18,
-  },
-};
-
-// ERC20 ABI for balanceOf
-const ERC20_ABI = [
-  {
-    inputs: [{ name: "account", type: "address" }],
-    name: "balanceOf",
-    outputs: [{ name: "", type: "uint256" }],
-    stateMutability: "view",
-    type: "function",
-  },
-] as const;
-
-// ============================================================
-// SESSION & CONTEXT
-// ============================================================
-interface SessionData {
-  messageCount: number;
-}
-
-type MyContext = Context & SessionFlavor<SessionData>;
+const CHAT_WALLETS_FILE = join(__dirname, "..", "chat-wallets.json");
+const DATA_DIR = join(__dirname, "..", "data");
+const network = getNetwork();
 
 let agentKit: AgentKit | null = null;
-let cachedWalletAddress: string | null = null;
+let walletAddress: string | null = null;
 
-// Viem clients for on-chain reads and ENS
-const baseClient = createPublicClient({ chain: base, transport: http() });
+// Viem clients for on-chain reads (active network) and ENS (always Ethereum mainnet)
+const baseClient = createPublicClient({ chain: network.chain, transport: http() });
 const mainnetClient = createPublicClient({ chain: mainnet, transport: http() });
 
-// ============================================================
-// WALLET PERSISTENCE
-// ============================================================
-interface WalletData {
-  ownerAddress: string;
-  smartWalletAddress: string;
-}
-
-function loadWalletData(): WalletData | null {
-  if (process.env.OWNER_ADDRESS && process.env.SMART_WALLET_ADDRESS) {
-    console.log("📂 Loading wallet from env vars");
-    return {
-      ownerAddress: process.env.OWNER_ADDRESS,
-      smartWalletAddress: process.env.SMART_WALLET_ADDRESS,
-    };
-  }
-  try {
-    if (existsSync(WALLET_DATA_FILE)) {
-      const data = JSON.parse(readFileSync(WALLET_DATA_FILE, "utf-8"));
-      console.log("📂 Loading wallet from file:", data.smartWalletAddress);
-      return data;
-    }
-  } catch {}
-  return null;
-}
-
-function saveWalletData(data: WalletData): void {
-  try {
-    writeFileSync(WALLET_DATA_FILE, JSON.stringify(data, null, 2));
-    console.log("💾 Wallet data saved to", WALLET_DATA_FILE);
-    console.log("   Owner:", data.ownerAddress);
-    console.log("   Smart Wallet:", data.smartWalletAddress);
-    console.log("\n⚠️  Add these to your Railway env vars for persistence:");
-    console.log(`   OWNER_ADDRESS=${data.ownerAddress}`);
-    console.log(`   SMART_WALLET_ADDRESS=${data.smartWalletAddress}`);
-  } catch (err) {
-    console.error("Failed to save wallet data:", err);
-  }
-}
-
 // ============================================================
 // AGENTKIT INITIALIZATION
 // ============================================================
 async function initializeAgentKit(): Promise<AgentKit> {
   if (agentKit) return agentKit;
 
-  const savedWallet = loadWalletData();
-
-  const config: any = {
-    apiKeyId: process.env.CDP_API_KEY_ID!,
-    apiKeySecret: process.env.CDP_API_KEY_SECRET!,
-    walletSecret: process.env.CDP_WALLET_SECRET!,
-    networkId: (process.env.NETWORK_ID || "base-mainnet") as any,
-  };
-
+  const savedWallet = loadWalletData(WALLET_DATA_FILE);
   if (savedWallet) {
-    config.owner = savedWallet.ownerAddress;
-    config.address = savedWallet.smartWalletAddress;
     console.log("🔑 Reloading existing wallet:", savedWallet.smartWalletAddress);
   } else {
     console.log("🆕 Creating new wallet (first run)...");
   }
 
-  const walletProvider = await CdpSmartWalletProvider.configureWithWallet(config);
+  const walletProvider = await configureWallet(network.id, savedWallet);
 
   const exported = await walletProvider.exportWallet();
   const walletData: WalletData = {
@@ -203,15 +59,21 @@ async function initializeAgentKit(): Promise<AgentKit> {
     smartWalletAddress: exported.address,
   };
 
-  cachedWalletAddress = exported.address;
+  walletAddress = exported.address;
 
   if (!savedWallet) {
-    saveWalletData(walletData);
+    saveWalletData(WALLET_DATA_FILE, walletData);
   }
 
   console.log("✅ Wallet address:", exported.address);
 
-  agentKit = await AgentKit.from({
+  agentKit = await buildAgentKit(walletProvider);
+
+  return agentKit;
+}
+
+function buildAgentKit(walletProvider: CdpSmartWalletProvider): Promise<AgentKit> {
+  return AgentKit.from({
     walletProvider,
     actionProviders: [
       walletActionProvider(),
@@ -222,462 +84,158 @@ async function initializeAgentKit(): Promise<AgentKit> {
       cdpSmartWalletActionProvider(),
     ],
   });
-
-  return agentKit;
-}
-
-// ============================================================
-// HELPERS
-// ============================================================
-
-function resolveToken(input: string): typeof TOKEN_REGISTRY[string] | null {
-  const key = input.toLowerCase().trim();
-  if (TOKEN_REGISTRY[key]) return TOKEN_REGISTRY[key];
-  for (const entry of Object.values(TOKEN_REGISTRY)) {
-    if (entry.symbol.toLowerCase() === key) return entry;
-  }
-  if (isAddress(input)) {
-    for (const entry of Object.values(TOKEN_REGISTRY)) {
-      if (entry.address.toLowerCase() === input.toLowerCase()) return entry;
-    }
-  }
-  return null;
-}
-
-async function resolveAddress(input: string): Promise<{ address: string; display: string }> {
-  const trimmed = input.trim();
-  if (isAddress(trimmed)) {
-    return { address: getAddress(trimmed), display: trimmed };
-  }
-  if (trimmed.endsWith(".eth")) {
-    try {
-      const resolved = await mainnetClient.getEnsAddress({ name: normalize(trimmed) });
-      if (resolved) {
-        return { address: resolved, display: `${trimmed} (${resolved.slice(0, 6)}...${resolved.slice(-4)})` };
-      }
-    } catch {}
-    return { address: "", display: trimmed };
-  }
-  return { address: trimmed, display: trimmed };
-}
-
-async function getTokenBalance(tokenAddress: string, walletAddress: string, decimals: number): Promise<string> {
-  try {
-    const balance = await baseClient.readContract({
-      address: tokenAddress as `0x${string}`,
-      abi: ERC20_ABI,
-      functionName: "balanceOf",
-      args: [walletAddress as `0x${string}`],
-    });
-    return formatUnits(balance, decimals);
-  } catch {
-    return "0";
-  }
-}
-
-async function getEthBalance(walletAddress: string): Promise<string> {
-  try {
-    const balance = await baseClient.getBalance({ address: walletAddress as `0x${string}` });
-    return formatUnits(balance, 18);
-  } catch {
-    return "0";
-  }
-}
-
-async function executeAction(
-  agent: AgentKit,
-  actionName: string,
-  args: Record<string, any> = {}
-): Promise<string> {
-  const actions = agent.getActions();
-  const action = actions.find((a) => a.name === actionName);
-  if (!action) return `Action "${actionName}" not found.`;
-
-  try {
-    const timeout = new Promise<string>((_, reject) =>
-      setTimeout(() => reject(new Error("Action timeout (30s)")), 30000)
-    );
-    const result = await Promise.race([
-      Promise.resolve(action.invoke(args)),
-      timeout,
-    ]);
-    return typeof result === "string" ? result : JSON.stringify(result, null, 2);
-  } catch (error: any) {
-    return `Error: ${error.message}`;
-  }
-}
-
-async function getWalletAddress(agent: AgentKit): Promise<string> {
-  if (cachedWalletAddress) return cachedWalletAddress;
-  const result = await executeAction(agent, "WalletActionProvider_get_wallet_details");
-  const match = result.match(/0x[a-fA-F0-9]{40}/);
-  if (match) {
-    cachedWalletAddress = match[0];
-    return cachedWalletAddress;
-  }
-  return "";
 }
 
-// ============================================================
-// PERSONALITY & CONVERSATIONAL RESPONSES
-// ============================================================
-const GREETINGS = [
-  "Yo! What's good? 🔥 Your favorite blockchain assistant is here. What we doing today — checking bags, making moves, or just vibing?",
-  "Ayyy, what's up! 👋 AIBINGWA in the building. Need me to check your wallet, swap some tokens, or send some bread? Just say the word.",
-  "Hey hey! 🚀 Your on-chain homie is ready. Balances, trades, transfers — whatever you need, I got you. What's the play?",
-  "Sup! 💎 Ready to make some moves on Base. Just tell me what you need — I speak both crypto and human lol",
-  "What's poppin! 🤝 AIBINGWA at your service. Whether it's checking prices, swapping tokens, or sending USDC — I'm locked in. Let's go!",
-];
-
-const CASUAL_RESPONSES: Record<string, string[]> = {
-  thanks: [
-    "Anytime fam! 🤝 That's what I'm here for.",
-    "No worries! Hit me up whenever you need anything else 💪",
-    "Got you! Always ready when you are 🔥",
-  ],
-  good: [
-    "Glad to hear it! 😎 Need anything else?",
-    "Let's keep the momentum going! What's next? 🚀",
-  ],
-  who: [
-    "I'm AIBINGWA — your personal AI blockchain assistant on Base Mainnet 🧠⛓️\n\nI can check balances, swap tokens, send crypto, fetch prices, and more. Think of me as your on-chain co-pilot. Just tell me what you need!",
-  ],
-  gm: [
-    "GM! ☀️ Another day, another opportunity. What are we doing today?",
-    "GM fam! 🌅 Ready to make some moves? Just say the word.",
-  ],
-};
-
-function getRandomResponse(arr: string[]): string {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
+// WALLET_MODE=per-chat — one smart wallet per chat, each with its own AgentKit,
+// built on first use and cached. Concurrent calls for a chat share one load.
+function createChatWallets(): ChatWallets {
+  const store = new ChatWalletStore(CHAT_WALLETS_FILE);
+  const cache = new Map<string, Promise<ChatWallet>>();
+
+  const load = (chatId: string, saved: WalletData | null): Promise<ChatWallet> => {
+    const loading = (async () => {
+      const walletProvider = await configureWallet(network.id, saved);
+      const exported = await walletProvider.exportWallet();
+      if (!saved) store.set(chatId, { ownerAddress: exported.ownerAddress, smartWalletAddress: exported.address });
+      return { agentKit: await buildAgentKit(walletProvider), address: exported.address };
+    })();
+    cache.set(chatId, loading);
+    // Don't cache failures; the next call tries again
+    loading.catch(() => cache.delete(chatId));
+    return loading;
+  };
 
-function isGreeting(text: string): boolean {
-  const greetings = ["hey", "hi", "hello", "yo", "sup", "what's up", "whats up", "wassup", "howdy", "hola", "ayo"];
-  const lower = text.toLowerCase().trim();
-  return greetings.some(g => lower === g || lower.startsWith(g + " ") || lower.startsWith(g + "!") || lower.startsWith(g + ","));
+  return {
+    get: async (chatId) => {
+      const saved = store.get(chatId);
+      return cache.get(chatId) ?? (saved ? load(chatId, saved) : null);
+    },
+    create: (chatId) => cache.get(chatId) ?? load(chatId, store.get(chatId) ?? null),
+  };
 }
 
-function getCasualResponse(text: string): string | null {
-  const lower = text.toLowerCase().trim();
-  if (lower.match(/^(thanks|thank you|thx|ty|appreciate)/)) return getRandomResponse(CASUAL_RESPONSES.thanks);
-  if (lower.match(/^(good|nice|cool|great|awesome|dope|fire|lit)/)) return getRandomResponse(CASUAL_RESPONSES.good);
-  if (lower.match(/who are you|what are you|about you/)) return getRandomResponse(CASUAL_RESPONSES.who);
-  if (lower.match(/^(gm|good morning)/)) return getRandomResponse(CASUAL_RESPONSES.gm);
-  if (lower.match(/^(gn|good night)/)) return "GN! 🌙 Rest up, we go again tomorrow. Your bags are safe with me 💎";
-  return null;
-}
 
 // ============================================================
-// NATURAL LANGUAGE PARSER
+// LIFECYCLE — readiness, in-flight tracking, graceful shutdown
 // ============================================================
-interface ParsedIntent {
-  action: "send" | "trade" | "swap" | "balance" | "price" | "wallet" | "wrap" | "unwrap" | "help" | "greet" | "casual" | "research" | "trending" | "lowcap" | "snipe" | "bankr" | "bankr-balance" | "unknown";
-  amount?: string;
-  fromToken?: string;
-  toToken?: string;
-  recipient?: string;
-  token?: string;
-  casualResponse?: string;
-  bankrPrompt?: string;
-}
-
-function parseNaturalLanguage(text: string): ParsedIntent {
-  const lower = text.toLowerCase().trim();
-
-  if (isGreeting(lower)) return { action: "greet" };
-
-  const casual = getCasualResponse(lower);
-  if (casual) return { action: "casual", casualResponse: casual };
-
-  const sendMatch = lower.match(/(?:send|transfer)\s+(\$?[\d.]+)\s+(\w+)\s+(?:to\s+)(.+)/i);
-  if (sendMatch) {
-    return {
-      action: "send",
-      amount: sendMatch[1].replace("$", ""),
-      token: sendMatch[2],
-      recipient: sendMatch[3].trim(),
-    };
-  }
-
-  const tradeMatch = lower.match(/(?:trade|swap|exchange)\s+(\$?[\d.]+)\s+(\w+)\s+(?:for|to|into)\s+(\w+)/i);
-  if (tradeMatch) {
-    return {
-      action: "trade",
-      amount: tradeMatch[1].replace("$", ""),
-      fromToken: tradeMatch[2],
-      toToken: tradeMatch[3],
-    };
-  }
-
-  const buyMatch = lower.match(/buy\s+(\$?[\d.]+)\s+(?:of\s+)?(\w+)(?:\s+with\s+(\w+))?/i);
-  if (buyMatch) {
-    return {
-      action: "trade",
-      amount: buyMatch[1].replace("$", ""),
-      fromToken: buyMatch[3] || "usdc",
-      toToken: buyMatch[2],
-    };
-  }
-
-  if (lower.includes("bankr") && (lower.includes("balance") || lower.includes("how much"))) {
-    return { action: "bankr-balance" };
-  }
-
-  const balanceMatch = lower.match(/(?:balance|how much|check)\s+(?:my\s+)?(?:of\s+)?(\w+)?/i);
-  if (balanceMatch) {
-    return { action: "balance", token: balanceMatch[1] || "eth" };
-  }
-
-  const priceMatch = lower.match(/(?:price|cost|worth)\s+(?:of\s+)?(\w+)/i);
-  if (priceMatch) {
-    return { action: "price", token: priceMatch[1] };
-  }
-
-  if (lower.match(/wallet|address|my account/)) return { action: "wallet" };
-  if (lower.match(/wrap\s+(\d+)/)) {
-    const m = lower.match(/wrap\s+(\d+)/);
-    return { action: "wrap", amount: m?.[1] || "1" };
-  }
-  if (lower.match(/unwrap\s+(\d+)/)) {
-    const m = lower.match(/unwrap\s+(\d+)/);
-    return { action: "unwrap", amount: m?.[1] || "1" };
-  }
-
-  if (lower.match(/help|what can you do|actions|commands/)) return { action: "help" };
-
-  return { action: "unknown" };
-}
+const RPC_CHECK_TTL_MS = 10_000;
+let rpcCheck: { at: number; ok: boolean } | null = null;
 
-// ============================================================
-// FORMATTING HELPERS
-// ============================================================
-function formatBalanceResponse(balances: Array<{ symbol: string; balance: string }>): string {
-  const lines = ["💼 **Your Balances**\n"];
-  for (const b of balances) {
-    const bal = parseFloat(b.balance).toFixed(6);
-    lines.push(`${b.symbol}: ${bal}`);
-  }
-  return lines.join("\n");
+async function isRpcReachable(): Promise<boolean> {
+  if (rpcCheck && Date.now() - rpcCheck.at < RPC_CHECK_TTL_MS) return rpcCheck.ok;
+  let ok = false;
+  try {
+    await Promise.race([
+      baseClient.getBlockNumber(),
+      new Promise((_, reject) => setTimeout(() => reject(new Error("RPC timeout")), 3000).unref()),
+    ]);
+    ok = true;
+  } catch {}
+  rpcCheck = { at: Date.now(), ok };
+  return ok;
 }
 
-function formatPriceResponse(symbol: string, priceData: string): string {
-  return `📊 **${symbol} Price**\n\n${priceData}`;
+async function checkReadiness(): Promise<{ ready: boolean; checks: Record<string, boolean> }> {
+  const checks = { agentKit: agentKit !== null, rpc: await isRpcReachable() };
+  return { ready: checks.agentKit && checks.rpc, checks };
 }
 
-// ============================================================
-// MAIN BOT
-// ============================================================
 async function main() {
+  const useWebhook = process.env.BOT_MODE === "webhook";
+  const webhookPath = process.env.WEBHOOK_PATH || "/telegram";
+  let webhookHandler: RequestHandler | null = null;
+  let shuttingDown = false;
+
+  // The HTTP server comes up first so health probes answer while AgentKit initializes
+  const port = process.env.PORT ? parseInt(process.env.PORT, 10) : useWebhook ? 8080 : null;
+  const server = port
+    ? startHttpServer({
+        port,
+        webhookPath,
+        getWebhookHandler: () => webhookHandler,
+        isReady: checkReadiness,
+        isShuttingDown: () => shuttingDown,
+        renderMetrics,
+      })
+    : null;
+
   try {
+    // Load the token registry and flag entries that aren't contracts on this chain
+    console.log(`🌐 Network: ${network.name}${network.isMainnet && !writesAllowed(network) ? " (read-only: set ALLOW_MAINNET_WRITES=true to enable transfers)" : ""}`);
+    loadTokenRegistry(tokenRegistryFile(DATA_DIR, network.id), network.id);
+    const tokenWarnings = await checkTokenContracts(baseClient);
+    for (const warning of tokenWarnings) console.warn("⚠️  Token registry:", warning);
+
     // Initialize AgentKit
     const agent = await initializeAgentKit();
 
-    // Create Telegram bot
-    const bot = new Bot<MyContext>(process.env.TELEGRAM_BOT_TOKEN!);
-
-    // Session middleware
-    bot.use(session({ initial: () => ({ messageCount: 0 }) }));
-
-    // Initialize AIBINGWA agent with Claude Sonnet 3.5
-    const aibingwa = new AgentBingwa({
-      anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-      bankrApiKey: process.env.BANKR_API_KEY,
-      x402PrivateKey: process.env.X402_PRIVATE_KEY,
-      dataDir: join(__dirname, "..", "data"),
-      onNotify: async (msg: string) => {
-        if (process.env.OWNER_CHAT_ID) {
-          try {
-            await bot.api.sendMessage(process.env.OWNER_CHAT_ID, msg, { parse_mode: "Markdown" });
-          } catch (err) {
-            console.error("Failed to send notification:", err);
-          }
-        }
-      },
-    });
-
-    // Register ALL skills from the package (Bankr, trading, research, leverage, NFT, etc.)
-    registerAllSkills(aibingwa.skills, {
-      bankrPrompt: aibingwa.getBankrPrompt(),
-      agentInstance: aibingwa,
-      executeAction: (actionName: string, args?: Record<string, any>) => executeAction(agent, actionName, args),
-      getWalletAddress: () => getWalletAddress(agent),
-      getEthBalance,
-      getTokenBalance,
-      resolveAddress,
-      getPrice: async (symbol: string) => {
-        const token = resolveToken(symbol);
-        if (!token || !token.pythFeedId) return `Unknown token: ${symbol}`;
-        const result = await executeAction(agent, "PythActionProvider_fetch_price", { priceFeedID: token.pythFeedId });
-        return result;
-      },
-      tokenRegistry: TOKEN_REGISTRY,
-      isBankrConfigured: () => !!process.env.BANKR_API_KEY,
-      trader: aibingwa.trader ? {
-        scanMarket: () => aibingwa.trader!.scanMarket(),
-        toggleAutoTrade: (on: boolean) => aibingwa.trader!.toggleAutoTrade(on),
-        updateSettings: (u: any) => aibingwa.trader!.updateSettings(u),
-        getMemory: () => aibingwa.trader!.getMemory(),
-      } : undefined,
-      x402Client: aibingwa.x402Client || undefined,
-      twitterClient: aibingwa.twitterClient || undefined,
+    // Build the Telegram bot around the live clients
+    const { bot, notifyOwner, startBackgroundJobs, pendingWork } = createBot({
+      network,
+      dataDir: DATA_DIR,
+      agentKit: agent,
+      walletAddress: walletAddress ?? undefined,
+      chatWallets: process.env.WALLET_MODE === "per-chat" ? createChatWallets() : undefined,
+      clients: { chain: baseClient, ens: mainnetClient },
+      createAgent: (onNotify) => new AgentBingwa({
+        anthropicApiKey: process.env.ANTHROPIC_API_KEY,
+        bankrApiKey: process.env.BANKR_API_KEY,
+        x402PrivateKey: process.env.X402_PRIVATE_KEY,
+        dataDir: DATA_DIR,
+        onNotify,
+      }),
+      registerSkills: registerAllSkills,
+      telegram: { token: process.env.TELEGRAM_BOT_TOKEN! },
     });
+    startBackgroundJobs();
 
-    // Commands
-    bot.command("start", async (ctx) => {
-      await ctx.reply(getRandomResponse(GREETINGS));
-    });
-
-    bot.command("help", async (ctx) => {
-      const help = `🤖 **AIBINGWA Bot Commands**\n\n` +
-        `*Wallet & Balance:*\n` +
-        `• /balance — Check your balances\n` +
-        `• /wallet — Show wallet address\n\n` +
-        `*Trading:*\n` +
-        `• "Swap 5 USDC for ETH"\n` +
-        `• "Buy $10 of DEGEN"\n\n` +
-        `*Transfers:*\n` +
-        `• "Send 10 USDC to vitalik.eth"\n\n` +
-        `*Prices:*\n` +
-        `• "Price of ETH"\n\n` +
-        `*Skills & Automation:*\n` +
-        `• /skills — See all 90+ available skills\n` +
-        `• /openclaw — OpenClaw ecosystem commands\n\n` +
-        `*AI Agent:*\n` +
-        `• Just chat naturally — I'll figure it out! 🧠`;
-      await ctx.reply(help, { parse_mode: "Markdown" });
-    });
+    if (tokenWarnings.length > 0) {
+      await notifyOwner(`⚠️ Token registry problems:\n${tokenWarnings.map((w) => `• ${w}`).join("\n")}`);
+    }
 
-    bot.command("skills", async (ctx) => {
-      const allSkills = aibingwa.skills.getAll();
-      const categories: Record<string, string[]> = {};
-      
-      for (const skill of allSkills) {
-        if (!categories[skill.category]) {
-          categories[skill.category] = [];
-        }
-        categories[skill.category].push(`• ${skill.name}`);
+    // Graceful shutdown — stop taking updates, let in-flight work finish, then exit
+    const shutdown = async (signal: string) => {
+      if (shuttingDown) return;
+      shuttingDown = true;
+      console.log(`\n🛑 ${signal} received — no longer accepting updates`);
+      if (!useWebhook) await bot.stop().catch((err) => console.error("Failed to stop polling:", err));
+
+      const deadline = Date.now() + parseInt(process.env.SHUTDOWN_TIMEOUT_SECONDS || "25", 10) * 1000;
+      const busy = () => pendingWork().inFlight > 0 || pendingWork().queued > 0;
+      while (busy() && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, 250));
       }
-      
-      // Send overview first
-      let overviewText = `🧠 **Available Skills (${allSkills.length} total)**\n\n`;
-      
-      const sortedCategories = Object.entries(categories).sort();
-      for (const [category, skills] of sortedCategories) {
-        overviewText += `**${category.toUpperCase()}**: ${skills.length} skills\n`;
+      if (busy()) {
+        const { inFlight, queued } = pendingWork();
+        console.warn(`⚠️  Exiting with ${inFlight} update(s) in flight and ${queued} queued message(s)`);
       }
-      
-      overviewText += `\n💡 **Skill Sources:**\n` +
-        `• **Bankr**: Trading, DeFi, leverage, portfolio\n` +
-        `• **OpenClaw**: Botchan, Clanker, Endaoment, ENS, Veil\n` +
-        `• **Automation**: Email, booking, cron jobs, reminders\n` +
-        `• **Utility**: Weather, news, file management, AI analysis\n\n` +
-        `**Try asking naturally:**\n` +
-        `• "Send email to john@company.com"\n` +
-        `• "Deploy a token called MyToken"\n` +
-        `• "Donate $10 to charity"\n` +
-        `• "Book hotel in NYC"\n` +
-        `• "Check my portfolio"`;
-      
-      await ctx.reply(overviewText, { parse_mode: "Markdown" });
-      
-      // Send detailed categories in chunks
-      for (const [category, skills] of sortedCategories.slice(0, 3)) {
-        const categoryText = `**${category.toUpperCase()} SKILLS:**\n` + 
-          skills.slice(0, 10).join("\n") +
-          (skills.length > 10 ? `\n... and ${skills.length - 10} more` : "");
-        
-        try {
-          await ctx.reply(categoryText, { parse_mode: "Markdown" });
-        } catch (err) {
-          await ctx.reply(categoryText);
-        }
-      }
-    });
-
-    bot.command("openclaw", async (ctx) => {
-      const openclawText = `🌐 **OpenClaw Ecosystem Skills**\n\n` +
-        `**Agent Messaging:**\n` +
-        `• Botchan — Post messages to agent feeds\n` +
-        `• Send to other agents onchain\n\n` +
-        `**Token Operations:**\n` +
-        `• Clanker — Deploy ERC20 tokens with Uniswap V4\n` +
-        `• Advanced vesting & airdrops\n\n` +
-        `**Charity & Social:**\n` +
-        `• Endaoment — Donate to 501(c)(3) nonprofits\n` +
-        `• Support causes onchain\n\n` +
-        `**Identity & Privacy:**\n` +
-        `• ENS — Domain name operations\n` +
-        `• Veil — Private/shielded transactions\n\n` +
-        `**Gaming & Auctions:**\n` +
-        `• QRCoin — QR code auctions\n` +
-        `• Yoink — Capture-the-flag gaming\n\n` +
-        `**Agent Registration:**\n` +
-        `• ERC-8004 — Register agent identity\n\n` +
-        `**Try asking:**\n` +
-        `• "Deploy a token called MyToken"\n` +
-        `• "Donate $10 to GiveDirectly"\n` +
-        `• "Post to Botchan feed"\n` +
-        `• "Send private transaction via Veil"`;
-      
-      await ctx.reply(openclawText, { parse_mode: "Markdown" });
-    });
 
-    bot.command("balance", async (ctx) => {
-      await ctx.reply("🔍 Checking balances...");
-      try {
-        const walletAddr = await getWalletAddress(agent);
-        const ethBal = await getEthBalance(walletAddr);
-        const usdcBal = await getTokenBalance(TOKEN_REGISTRY.usdc.address, walletAddr, 6);
-        const wethBal = await getTokenBalance(TOKEN_REGISTRY.weth.address, walletAddr, 18);
-        await ctx.reply(formatBalanceResponse([
-          { symbol: "ETH", balance: ethBal },
-          { symbol: "USDC", balance: usdcBal },
-          { symbol: "WETH", balance: wethBal },
-        ]));
-      } catch (err: any) {
-        await ctx.reply(`❌ Error: ${err.message}`);
-      }
-    });
+      server?.close();
+      console.log("👋 Shutdown complete");
+      process.exit(0);
+    };
+    process.once("SIGTERM", () => shutdown("SIGTERM"));
+    process.once("SIGINT", () => shutdown("SIGINT"));
 
-    // Message handler — routes ALL messages through the agent brain (v4: polymarket vs leverage clarity, no confusion)
-    bot.on("message:text", async (ctx) => {
-      const text = ctx.message.text;
-      const userName = ctx.from?.first_name || "anon";
-      
-      // Log user question
-      console.log(`\n📨 User (${userName}): ${text}`);
-
-      // Show typing indicator
-      await ctx.api.sendChatAction(ctx.chat.id, "typing");
-      
-      try {
-        // Route ALL messages through the agent's brain
-        // This handles conversation context, follow-ups, and all 90+ skills including dynamic credentials
-        const response = await aibingwa.processMessage(
-          ctx.chat.id.toString(),
-          userName,
-          text,
-        );
-        
-        // Log response
-        console.log(`🤖 Agent: ${response.substring(0, 200)}${response.length > 200 ? "..." : ""}\n`);
-        
-        await ctx.reply(response, { parse_mode: "Markdown" }).catch(() => {
-          // Fallback without markdown if parsing fails
-          ctx.reply(response);
-        });
-      } catch (err: any) {
-        console.log(`❌ Error: ${err.message}\n`);
-        await ctx.reply(`❌ Error: ${err.message}`);
+    if (useWebhook) {
+      if (!process.env.WEBHOOK_URL || !process.env.WEBHOOK_SECRET) {
+        throw new Error("BOT_MODE=webhook requires WEBHOOK_URL and WEBHOOK_SECRET");
       }
-    });
-
-    bot.catch((err) => console.error("Bot error:", err));
-
-    console.log("🤖 Starting bot...");
-    bot.start();
-    console.log("✅ AIBINGWA bot is running! Send /start in Telegram.");
+      await bot.init();
+      webhookHandler = webhookCallback(bot, "http", {
+        secretToken: process.env.WEBHOOK_SECRET,
+        // Agent replies can take longer than Telegram waits; acknowledge and keep working
+        onTimeout: "return",
+      });
+      await bot.api.setWebhook(`${process.env.WEBHOOK_URL.replace(/\/$/, "")}${webhookPath}`, {
+        secret_token: process.env.WEBHOOK_SECRET,
+      });
+      console.log(`✅ AIBINGWA bot is running in webhook mode at ${webhookPath}`);
+    } else {
+      console.log("🤖 Starting bot...");
+      bot.start();
+      console.log("✅ AIBINGWA bot is running! Send /start in Telegram.");
+    }
   } catch (error) {
     console.error("❌ Fatal error:", error);
     process.exit(1);
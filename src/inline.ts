@@ -0,0 +1,76 @@
+import type { InlineQueryResultArticle } from "grammy/types";
+import { markdownToHtml } from "./render.js";
+
+// ============================================================
+// INLINE MODE — "@bot price eth" in any chat. Read-only: prices and the deposit address
+// ============================================================
+export type InlineRequest =
+  | { kind: "price"; token: string }
+  | { kind: "wallet" }
+  /** Empty query: show the default price card and the deposit address. */
+  | { kind: "default" };
+
+/** "price eth", "eth price", "btc", "deposit", "wallet" or nothing at all. */
+export function parseInlineQuery(query: string): InlineRequest {
+  const lower = query.trim().toLowerCase().replace(/[?$]/g, "");
+  if (!lower) return { kind: "default" };
+  if (/^(wallet|deposit|address|receive)\b/.test(lower)) return { kind: "wallet" };
+  const words = lower.split(/\s+/).filter((w) => w !== "price" && w !== "of");
+  return { kind: "price", token: words[0] ?? "" };
+}
+
+/** Entries expire after the TTL; used so a burst of keystrokes doesn't fetch the same price repeatedly. */
+export class TtlCache<T> {
+  private entries = new Map<string, { value: T; at: number }>();
+
+  constructor(private readonly ttlMs: number) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.at >= this.ttlMs) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: T): void {
+    this.entries.set(key, { value, at: Date.now() });
+  }
+}
+
+function formatPrice(price: number): string {
+  return `$${price.toLocaleString("en-US", { maximumFractionDigits: price < 1 ? 6 : 2 })}`;
+}
+
+export function priceResult(symbol: string, name: string, price: number, fetchedAt: number): InlineQueryResultArticle {
+  const time = new Date(fetchedAt).toISOString().slice(11, 16);
+  return {
+    type: "article",
+    id: `price:${symbol}`,
+    title: `${symbol} — ${formatPrice(price)}`,
+    description: `${name} · Pyth price at ${time} UTC`,
+    input_message_content: {
+      message_text: markdownToHtml(`📊 **${symbol} Price**\n\n${formatPrice(price)}\n_${name} · Pyth · ${time} UTC_`),
+      parse_mode: "HTML",
+    },
+  };
+}
+
+export function depositResult(address: string, networkName: string, explorerUrl: string, primaryName?: string | null): InlineQueryResultArticle {
+  return {
+    type: "article",
+    id: `deposit:${address.toLowerCase()}`,
+    title: "👛 Deposit here",
+    description: `${primaryName ? `${primaryName} · ` : ""}${address} on ${networkName}`,
+    input_message_content: {
+      message_text: markdownToHtml(
+        `👛 **Deposit here**\n\n\`${address}\`${primaryName ? `\n${primaryName}` : ""}\n\n` +
+        `Network: ${networkName} — only send tokens on this network.\n${explorerUrl}/address/${address}`,
+      ),
+      parse_mode: "HTML",
+      link_preview_options: { is_disabled: true },
+    },
+  };
+}
@@ -0,0 +1,153 @@
+// ============================================================
+// METRICS — minimal Prometheus counters and histograms
+// ============================================================
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels).sort().map((k) => `${k}="${String(labels[k]).replace(/["\\\n]/g, "_")}"`).join(",");
+}
+
+function withLabels(name: string, key: string, extra?: string): string {
+  const all = [key, extra].filter(Boolean).join(",");
+  return all ? `${name}{${all}}` : name;
+}
+
+export class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += by;
+    this.values.set(key, entry);
+  }
+
+  entries(): Array<{ labels: Labels; value: number }> {
+    return [...this.values.values()];
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const [key, { value }] of this.values) lines.push(`${withLabels(this.name, key)} ${value}`);
+    return lines.join("\n");
+  }
+}
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+export class Histogram {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private readonly buckets = DEFAULT_BUCKETS) {}
+
+  observe(labels: Labels, seconds: number): void {
+    const key = labelKey(labels);
+    const entry = this.series.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((le, i) => {
+      if (seconds <= le) entry.counts[i]++;
+    });
+    entry.sum += seconds;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  /** Times an async call and records its duration. */
+  async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+    const started = performance.now();
+    try {
+      return await fn();
+    } finally {
+      this.observe(labels, (performance.now() - started) / 1000);
+    }
+  }
+
+  entries(): Array<{ labels: Labels; sum: number; count: number }> {
+    return [...this.series.values()];
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const [key, entry] of this.series) {
+      this.buckets.forEach((le, i) => lines.push(`${withLabels(`${this.name}_bucket`, key, `le="${le}"`)} ${entry.counts[i]}`));
+      lines.push(`${withLabels(`${this.name}_bucket`, key, 'le="+Inf"')} ${entry.count}`);
+      lines.push(`${withLabels(`${this.name}_sum`, key)} ${entry.sum}`);
+      lines.push(`${withLabels(`${this.name}_count`, key)} ${entry.count}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+export const metrics = {
+  actions: new Counter("aibingwa_actions_total", "AgentKit actions by name and outcome (success, error, timeout)"),
+  actionDuration: new Histogram("aibingwa_action_duration_seconds", "AgentKit action latency"),
+  rpcReads: new Counter("aibingwa_rpc_reads_total", "On-chain reads by client, method and outcome"),
+  rpcDuration: new Histogram("aibingwa_rpc_read_duration_seconds", "On-chain read latency", [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]),
+  agentRequests: new Counter("aibingwa_agent_requests_total", "aibingwa.processMessage calls by outcome"),
+  agentDuration: new Histogram("aibingwa_agent_duration_seconds", "aibingwa.processMessage latency"),
+  telegramFailures: new Counter("aibingwa_telegram_send_failures_total", "Failed Telegram sends, including HTML-to-plain-text fallbacks"),
+};
+
+export function renderMetrics(): string {
+  return Object.values(metrics).map((m) => m.render()).join("\n\n") + "\n";
+}
+
+/** Times an on-chain read and counts it as ok/error under the given client and method. */
+export async function timedRead<T>(client: string, method: string, fn: () => Promise<T>): Promise<T> {
+  const labels = { client, method };
+  try {
+    const result = await metrics.rpcDuration.time(labels, fn);
+    metrics.rpcReads.inc({ ...labels, outcome: "ok" });
+    return result;
+  } catch (err) {
+    metrics.rpcReads.inc({ ...labels, outcome: "error" });
+    throw err;
+  }
+}
+
+function mean(sum: number, count: number): string {
+  return count > 0 ? `${((sum / count) * 1000).toFixed(0)}ms` : "n/a";
+}
+
+/** Human-readable version of the same numbers for /stats. */
+export function formatStats(): string {
+  const lines = ["📈 Bot Stats (since start)", ""];
+
+  const byAction = new Map<string, Record<string, number>>();
+  for (const { labels, value } of metrics.actions.entries()) {
+    const counts = byAction.get(labels.action) ?? {};
+    counts[labels.outcome] = (counts[labels.outcome] ?? 0) + value;
+    byAction.set(labels.action, counts);
+  }
+  const durations = new Map(metrics.actionDuration.entries().map((e) => [e.labels.action, e]));
+  lines.push("Actions:");
+  if (byAction.size === 0) lines.push("  none yet");
+  for (const [action, counts] of byAction) {
+    const d = durations.get(action);
+    lines.push(`  ${action.replace(/^\w+ActionProvider_/, "")}: ✅ ${counts.success ?? 0} ❌ ${counts.error ?? 0} ⏱ ${counts.timeout ?? 0} — avg ${d ? mean(d.sum, d.count) : "n/a"}`);
+  }
+
+  lines.push("", "RPC reads:");
+  const rpcDurations = new Map(metrics.rpcDuration.entries().map((e) => [`${e.labels.client}/${e.labels.method}`, e]));
+  const rpc = new Map<string, Record<string, number>>();
+  for (const { labels, value } of metrics.rpcReads.entries()) {
+    const key = `${labels.client}/${labels.method}`;
+    const counts = rpc.get(key) ?? {};
+    counts[labels.outcome] = (counts[labels.outcome] ?? 0) + value;
+    rpc.set(key, counts);
+  }
+  if (rpc.size === 0) lines.push("  none yet");
+  for (const [key, counts] of rpc) {
+    const d = rpcDurations.get(key);
+    lines.push(`  ${key}: ✅ ${counts.ok ?? 0} ❌ ${counts.error ?? 0} — avg ${d ? mean(d.sum, d.count) : "n/a"}`);
+  }
+
+  const agent = metrics.agentDuration.entries()[0];
+  const agentCounts = Object.fromEntries(metrics.agentRequests.entries().map((e) => [e.labels.outcome, e.value]));
+  lines.push("", `Agent: ✅ ${agentCounts.success ?? 0} ❌ ${agentCounts.error ?? 0} — avg ${agent ? mean(agent.sum, agent.count) : "n/a"}`);
+
+  const failures = metrics.telegramFailures.entries().map((e) => `${e.labels.kind}: ${e.value}`).join(", ");
+  lines.push(`Telegram send failures: ${failures || "none"}`);
+  return lines.join("\n");
+}
@@ -0,0 +1,143 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { getAddress, isAddress, toCoinType, zeroAddress } from "viem";
+import { normalize } from "viem/ens";
+import type { PublicClient } from "viem";
+import { timedRead } from "./metrics.js";
+
+// ============================================================
+// NAME RESOLUTION — ENS, Basenames and reverse lookups
+// ============================================================
+export interface ResolvedAddress {
+  /** Checksummed address, or "" when the input could not be resolved. */
+  address: string;
+  display: string;
+  /** Name the address was resolved from, or its primary name. */
+  name?: string;
+  /** Set when the name pointed somewhere else the last time funds were sent to it. */
+  previousAddress?: string;
+}
+
+// Structural type so chain-specific clients fit
+export type EnsClient = Pick<PublicClient, "getEnsAddress" | "getEnsName">;
+
+interface CacheEntry<T> {
+  value: T;
+  expires: number;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+// Anything that isn't a real, non-zero address is rejected
+function toChecksummed(value: string | null | undefined): string {
+  if (!value || !isAddress(value, { strict: false }) || value.toLowerCase() === zeroAddress) return "";
+  return getAddress(value);
+}
+
+/**
+ * Resolves ENS (`.eth`) and Basenames (`.base.eth`) through the mainnet
+ * universal resolver, preferring the record for the chain we send on, and
+ * looks up primary names for addresses. Results are cached for `ttlMs`, and
+ * the address each name had at its last completed send is persisted so a
+ * changed record can be flagged before funds go to it.
+ */
+export class NameResolver {
+  private forward = new Map<string, CacheEntry<string>>();
+  private reverse = new Map<string, CacheEntry<string | null>>();
+  private lastSeen: Record<string, string> = {};
+
+  constructor(
+    private readonly client: EnsClient,
+    private readonly chainId: number,
+    private readonly historyFile: string,
+    private readonly ttlMs: number,
+  ) {
+    try {
+      if (existsSync(historyFile)) this.lastSeen = JSON.parse(readFileSync(historyFile, "utf-8"));
+    } catch (err) {
+      console.error("Failed to load name history:", err);
+    }
+  }
+
+  async resolve(input: string): Promise<ResolvedAddress> {
+    const trimmed = input.trim();
+    if (/^0x/i.test(trimmed)) {
+      const address = isAddress(trimmed) ? toChecksummed(trimmed) : "";
+      if (!address) return { address: "", display: trimmed };
+      const name = await this.lookupName(address);
+      return name ? { address, display: `${name} (${shortAddress(address)})`, name } : { address, display: address };
+    }
+    if (!trimmed.toLowerCase().endsWith(".eth")) return { address: "", display: trimmed };
+
+    let name: string;
+    try {
+      name = normalize(trimmed);
+    } catch {
+      return { address: "", display: trimmed };
+    }
+    const address = await this.resolveName(name);
+    if (!address) return { address: "", display: name };
+
+    const previousAddress = this.lastSeen[name] && this.lastSeen[name] !== address ? this.lastSeen[name] : undefined;
+    const warning = previousAddress ? ` ⚠️ changed since last use (was ${shortAddress(previousAddress)})` : "";
+    return { address, display: `${name} (${shortAddress(address)})${warning}`, name, previousAddress };
+  }
+
+  /**
+   * Records where a name pointed when funds were actually sent to it. Lookups alone
+   * (previews, policy checks, refused or cancelled sends) never move this baseline.
+   */
+  remember(name: string, address: string): void {
+    if (this.lastSeen[name] === address) return;
+    this.lastSeen[name] = address;
+    this.save();
+  }
+
+  /** Primary name for an address: its Basename on the active chain, else its mainnet ENS name. */
+  async lookupName(address: string): Promise<string | null> {
+    const key = address.toLowerCase();
+    const cached = this.reverse.get(key);
+    if (cached && cached.expires > Date.now()) return cached.value;
+
+    let name: string | null = null;
+    for (const coinType of [toCoinType(this.chainId), undefined]) {
+      try {
+        name = await timedRead("mainnet", "lookupName", () =>
+          this.client.getEnsName({ address: address as `0x${string}`, coinType }),
+        );
+      } catch {}
+      if (name) break;
+    }
+    this.reverse.set(key, { value: name, expires: Date.now() + this.ttlMs });
+    return name;
+  }
+
+  private async resolveName(name: string): Promise<string> {
+    const cached = this.forward.get(name);
+    if (cached && cached.expires > Date.now()) return cached.value;
+
+    let address = "";
+    for (const coinType of [toCoinType(this.chainId), undefined]) {
+      try {
+        address = toChecksummed(await timedRead("mainnet", "resolveAddress", () =>
+          this.client.getEnsAddress({ name, coinType }),
+        ));
+      } catch {}
+      if (address) break;
+    }
+    // Failures aren't cached so a flaky RPC doesn't pin a name as unresolvable
+    if (address) this.forward.set(name, { value: address, expires: Date.now() + this.ttlMs });
+    return address;
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(dirname(this.historyFile), { recursive: true });
+      writeFileSync(this.historyFile, JSON.stringify(this.lastSeen, null, 2));
+    } catch (err) {
+      console.error("Failed to save name history:", err);
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { Chain } from "viem";
+import { base, baseSepolia } from "viem/chains";
+
+// ============================================================
+// NETWORKS — chain, explorer and safety settings per NETWORK_ID
+// ============================================================
+export type NetworkId = "base-mainnet" | "base-sepolia";
+
+export interface NetworkConfig {
+  id: NetworkId;
+  name: string;
+  chain: Chain;
+  isMainnet: boolean;
+  explorerUrl: string;
+}
+
+export const NETWORKS: Record<NetworkId, NetworkConfig> = {
+  "base-mainnet": {
+    id: "base-mainnet",
+    name: "Base Mainnet",
+    chain: base,
+    isMainnet: true,
+    explorerUrl: "https://basescan.org",
+  },
+  "base-sepolia": {
+    id: "base-sepolia",
+    name: "Base Sepolia (testnet)",
+    chain: baseSepolia,
+    isMainnet: false,
+    explorerUrl: "https://sepolia.basescan.org",
+  },
+};
+
+export function getNetwork(id: string = process.env.NETWORK_ID || "base-mainnet"): NetworkConfig {
+  const network = NETWORKS[id as NetworkId];
+  if (!network) {
+    throw new Error(`Unsupported NETWORK_ID "${id}". Use one of: ${Object.keys(NETWORKS).join(", ")}`);
+  }
+  return network;
+}
+
+/** Value-moving actions on mainnet are refused unless ALLOW_MAINNET_WRITES=true. */
+export function writesAllowed(network: NetworkConfig): boolean {
+  return !network.isMainnet || process.env.ALLOW_MAINNET_WRITES === "true";
+}
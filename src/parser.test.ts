@@ -0,0 +1,121 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { detectCasual, parseNaturalLanguage } from "./parser.js";
+
+const ADDRESS = "0x71C7656EC7ab88b098defB751B7401B5f6d8976F";
+
+describe("parseNaturalLanguage — send", () => {
+  it("reads a token amount and an ENS name", () => {
+    assert.deepEqual(parseNaturalLanguage("send 10 usdc to vitalik.eth"), {
+      action: "send", amount: "10", token: "usdc", recipient: "vitalik.eth", confident: true,
+    });
+  });
+
+  it("treats a bare dollar amount as USDC", () => {
+    assert.deepEqual(parseNaturalLanguage("send $10 to vitalik.eth"), {
+      action: "send", amount: "10", token: "usdc", recipient: "vitalik.eth", confident: true,
+    });
+  });
+
+  it("keeps decimals, including a leading dot", () => {
+    assert.equal(parseNaturalLanguage("send 0.25 eth to vitalik.eth").amount, "0.25");
+    assert.equal(parseNaturalLanguage("send .5 eth to vitalik.eth").amount, ".5");
+    assert.equal(parseNaturalLanguage("send $2.50 to vitalik.eth").amount, "2.50");
+  });
+
+  it("accepts a raw address", () => {
+    const intent = parseNaturalLanguage(`transfer 5 usdc to ${ADDRESS}`);
+    assert.equal(intent.recipient, ADDRESS.toLowerCase());
+    assert.equal(intent.confident, true);
+  });
+
+  it("strips trailing punctuation from the recipient", () => {
+    assert.equal(parseNaturalLanguage("send 10 usdc to vitalik.eth.").recipient, "vitalik.eth");
+    assert.equal(parseNaturalLanguage("send 10 usdc to base.base.eth!").recipient, "base.base.eth");
+  });
+
+  it("leaves a send without a token to the agent", () => {
+    const intent = parseNaturalLanguage("send 10 to vitalik.eth");
+    assert.equal(intent.action, "send");
+    assert.equal(intent.token, undefined);
+    assert.equal(intent.confident, false);
+  });
+
+  it("ignores negated sends", () => {
+    assert.deepEqual(parseNaturalLanguage("don't send 10 usdc to bob"), { action: "unknown" });
+    assert.deepEqual(parseNaturalLanguage("do not send 10 usdc to bob"), { action: "unknown" });
+    assert.deepEqual(parseNaturalLanguage("please never transfer 5 usdc to bob.eth"), { action: "unknown" });
+  });
+
+  it("only reads a send at the start of the message", () => {
+    assert.equal(parseNaturalLanguage("please send 10 usdc to vitalik.eth").action, "send");
+    assert.deepEqual(parseNaturalLanguage("what happens if i send 10 usdc to vitalik.eth"), { action: "unknown" });
+  });
+});
+
+describe("parseNaturalLanguage — trades", () => {
+  it("reads a swap", () => {
+    assert.deepEqual(parseNaturalLanguage("swap 5 usdc for eth"), {
+      action: "trade", amount: "5", fromToken: "usdc", toToken: "eth", confident: true,
+    });
+  });
+
+  it("spends USDC on a dollar buy", () => {
+    assert.deepEqual(parseNaturalLanguage("buy $10 of degen"), {
+      action: "trade", amount: "10", fromToken: "usdc", toToken: "degen", confident: true,
+    });
+    assert.equal(parseNaturalLanguage("buy $10 of eth with usdc").confident, true);
+  });
+
+  it("leaves buys of a token amount to the agent", () => {
+    assert.equal(parseNaturalLanguage("buy 0.5 eth with usdc").confident, false);
+    assert.equal(parseNaturalLanguage("buy 100 degen with usdc").confident, false);
+    assert.equal(parseNaturalLanguage("buy 10 degen").confident, false);
+  });
+
+  it("leaves a dollar buy paid in another token to the agent", () => {
+    assert.equal(parseNaturalLanguage("buy $10 of degen with eth").confident, false);
+  });
+});
+
+describe("parseNaturalLanguage — reads", () => {
+  it("reads wrap and unwrap amounts", () => {
+    assert.deepEqual(parseNaturalLanguage("wrap 0.1 eth"), { action: "wrap", amount: "0.1", confident: true });
+    assert.deepEqual(parseNaturalLanguage("unwrap .2 weth"), { action: "unwrap", amount: ".2", confident: true });
+  });
+
+  it("reads balance questions", () => {
+    assert.equal(parseNaturalLanguage("how much usdc do i have").token, "usdc");
+    assert.equal(parseNaturalLanguage("my eth balance").token, "eth");
+    assert.equal(parseNaturalLanguage("check my balance").token, undefined);
+    assert.equal(parseNaturalLanguage("what's my balance of usdc?").token, "usdc");
+  });
+
+  it("leaves sentences that only mention a balance to the agent", () => {
+    assert.deepEqual(parseNaturalLanguage("balance of trade"), { action: "unknown" });
+    assert.deepEqual(parseNaturalLanguage("explain the balance of trade with china"), { action: "unknown" });
+    assert.deepEqual(parseNaturalLanguage("rebalance my portfolio"), { action: "unknown" });
+  });
+
+  it("reads price questions", () => {
+    assert.equal(parseNaturalLanguage("price of eth").token, "eth");
+    assert.equal(parseNaturalLanguage("btc price?").token, "btc");
+  });
+
+  it("leaves anything else to the agent", () => {
+    assert.deepEqual(parseNaturalLanguage("deploy a token called MyToken"), { action: "unknown" });
+  });
+});
+
+describe("detectCasual", () => {
+  it("tells good morning and good night from a generic compliment", () => {
+    assert.equal(detectCasual("good morning")?.kind, "gm");
+    assert.equal(detectCasual("good night fam")?.kind, "gn");
+    assert.equal(detectCasual("good job")?.kind, "good");
+  });
+
+  it("matches whole words only", () => {
+    assert.equal(detectCasual("gmx price"), null);
+    assert.equal(detectCasual("goodbye"), null);
+  });
+});
@@ -0,0 +1,154 @@
+import { CasualKind, Language, MESSAGES, PHRASES } from "./i18n.js";
+
+// ============================================================
+// PERSONALITY & CONVERSATIONAL RESPONSES
+// ============================================================
+export function getRandomResponse(arr: string[]): string {
+  return arr[Math.floor(Math.random() * arr.length)];
+}
+
+const SUPPORTED = Object.keys(PHRASES) as Language[];
+
+/** The language of a greeting ("mambo" → sw), or null when the text isn't one. */
+export function detectGreeting(text: string): Language | null {
+  const lower = text.toLowerCase().trim();
+  return SUPPORTED.find((language) => PHRASES[language].greetings.some(g =>
+    lower === g || lower.startsWith(g + " ") || lower.startsWith(g + "!") || lower.startsWith(g + ","),
+  )) ?? null;
+}
+
+export function isGreeting(text: string): boolean {
+  return detectGreeting(text) !== null;
+}
+
+/** The kind and language of a casual remark ("asante" → thanks, sw), or null. */
+export function detectCasual(text: string): { kind: CasualKind; language: Language } | null {
+  const lower = text.toLowerCase().trim();
+  for (const language of SUPPORTED) {
+    for (const [kind, pattern] of Object.entries(PHRASES[language].casual) as Array<[CasualKind, RegExp]>) {
+      if (pattern.test(lower)) return { kind, language };
+    }
+  }
+  return null;
+}
+
+/** A reply to a casual remark, in `language` or else the language the remark was made in. */
+export function getCasualResponse(text: string, language?: Language): string | null {
+  const casual = detectCasual(text);
+  return casual ? getRandomResponse(MESSAGES[language ?? casual.language].casual[casual.kind]) : null;
+}
+
+// ============================================================
+// NATURAL LANGUAGE PARSER
+// ============================================================
+export interface ParsedIntent {
+  action: "send" | "trade" | "swap" | "balance" | "price" | "wallet" | "wrap" | "unwrap" | "help" | "greet" | "casual" | "research" | "trending" | "lowcap" | "snipe" | "bankr" | "bankr-balance" | "unknown";
+  amount?: string;
+  fromToken?: string;
+  toToken?: string;
+  recipient?: string;
+  token?: string;
+  casualResponse?: string;
+  /** For greetings and casual remarks, the language they were written in. */
+  language?: Language;
+  bankrPrompt?: string;
+  /** True when the intent is specific enough to run without the agent. */
+  confident?: boolean;
+}
+
+const AMOUNT = String.raw`\$?(?:\d+(?:\.\d+)?|\.\d+)`;
+
+const POLITE = String.raw`(?:please\s+|pls\s+|(?:can|could)\s+you\s+)`;
+const NEGATION = /\b(?:don['’]?t|do not|never|not|won['’]?t)\b/;
+
+function cleanAmount(raw: string): string {
+  return raw.replace("$", "");
+}
+
+// Strips trailing punctuation from a recipient ("vitalik.eth." → "vitalik.eth")
+function cleanRecipient(raw: string): string {
+  return raw.trim().split(/\s+/)[0].replace(/[.,!?;:]+$/, "");
+}
+
+export function parseNaturalLanguage(text: string): ParsedIntent {
+  const lower = text.toLowerCase().trim();
+
+  const greeting = detectGreeting(lower);
+  if (greeting) return { action: "greet", language: greeting };
+
+  const casual = detectCasual(lower);
+  if (casual) return { action: "casual", casualResponse: getCasualResponse(lower)!, language: casual.language };
+
+  // "Don't send 10 usdc to bob" must never move funds; let the agent read it
+  if (NEGATION.test(lower)) return { action: "unknown" };
+
+  // "send 10 usdc to vitalik.eth", "send $5 to 0xabc..." (a bare dollar amount means USDC).
+  // Only at the start, so a sentence that merely mentions a send isn't taken as one.
+  const sendMatch = lower.match(new RegExp(String.raw`^(?:${POLITE})?(?:send|transfer)\s+(${AMOUNT})\s+(?:(\w+)\s+)?to\s+(\S+)`, "i"));
+  if (sendMatch) {
+    const isDollar = sendMatch[1].startsWith("$");
+    return {
+      action: "send",
+      amount: cleanAmount(sendMatch[1]),
+      token: sendMatch[2] || (isDollar ? "usdc" : undefined),
+      recipient: cleanRecipient(sendMatch[3]),
+      confident: !!sendMatch[2] || isDollar,
+    };
+  }
+
+  const tradeMatch = lower.match(new RegExp(String.raw`(?:trade|swap|exchange)\s+(${AMOUNT})\s+(\w+)\s+(?:for|to|into)\s+(\w+)`, "i"));
+  if (tradeMatch) {
+    return {
+      action: "trade",
+      amount: cleanAmount(tradeMatch[1]),
+      fromToken: tradeMatch[2],
+      toToken: tradeMatch[3],
+      confident: true,
+    };
+  }
+
+  // "buy $10 of eth" spends 10 USDC. Any other buy names an amount of the token being
+  // bought ("buy 0.5 eth with usdc"), which a swap can't express, so it is left to the agent
+  const buyMatch = lower.match(new RegExp(String.raw`buy\s+(${AMOUNT})\s+(?:of\s+)?(\w+)(?:\s+with\s+(\w+))?`, "i"));
+  if (buyMatch) {
+    const quote = buyMatch[3] || "usdc";
+    return {
+      action: "trade",
+      amount: cleanAmount(buyMatch[1]),
+      fromToken: quote,
+      toToken: buyMatch[2],
+      confident: buyMatch[1].startsWith("$") && quote === "usdc",
+    };
+  }
+
+  if (lower.includes("bankr") && (lower.includes("balance") || lower.includes("how much"))) {
+    return { action: "bankr-balance" };
+  }
+
+  const unwrapMatch = lower.match(new RegExp(String.raw`\b(un)?wrap\s+(${AMOUNT})`));
+  if (unwrapMatch) {
+    return { action: unwrapMatch[1] ? "unwrap" : "wrap", amount: cleanAmount(unwrapMatch[2]), confident: true };
+  }
+
+  // The whole message has to be the question: "balance of trade" or "rebalance my portfolio" are not
+  const balanceMatch = lower.match(
+    /^(?:how much\s+(\w+)\s+do i have|(?:(?:check|show)\s+)?(?:my\s+)?(?:(\w+)\s+)?balances?|(?:(?:check|show|what(?:'s| is))\s+(?:my\s+)?|my\s+)balances?\s+(?:of|for)\s+(?:my\s+)?(\w+))\s*\??$/i,
+  );
+  if (balanceMatch) {
+    const token = balanceMatch[1] || balanceMatch[2] || balanceMatch[3];
+    return { action: "balance", token: token && !["my", "check", "wallet", "the"].includes(token) ? token : undefined, confident: true };
+  }
+
+  const priceMatch = lower.match(/(?:price|cost|worth)\s+(?:of\s+)?(\w+)/i) || lower.match(/^(\w+)\s+price\??$/i);
+  if (priceMatch) {
+    return { action: "price", token: priceMatch[1], confident: true };
+  }
+
+  if (lower.match(/^(?:(?:show|what(?:'s| is))\s+)?(?:my\s+)?(?:wallet|address|account)(?:\s+address)?\??$/)) {
+    return { action: "wallet", confident: true };
+  }
+
+  if (lower.match(/^(?:help|what can you do|actions|commands)\??$/)) return { action: "help", confident: true };
+
+  return { action: "unknown" };
+}
@@ -0,0 +1,51 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { policyTokenKey, SpendingPolicy } from "./policy.js";
+import type { ConfirmResolvers } from "./confirm.js";
+import type { TokenEntry } from "./tokens.js";
+
+const USDC: TokenEntry = { symbol: "USDC", name: "USD Coin", decimals: 6, address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" };
+const UNLISTED = "0x9999999999999999999999999999999999999999";
+const RECIPIENT = "0x2222222222222222222222222222222222222222";
+
+const resolvers: ConfirmResolvers = {
+  resolveToken: (input) =>
+    input.toLowerCase() === "usdc" || input.toLowerCase() === USDC.address.toLowerCase() ? USDC : null,
+  resolveAddress: async (input) => ({ address: input }) as Awaited<ReturnType<ConfirmResolvers["resolveAddress"]>>,
+};
+
+const dataDir = mkdtempSync(join(tmpdir(), "bingwa-policy-"));
+
+after(() => {
+  rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("policyTokenKey", () => {
+  it("uses the registry symbol for names and addresses of listed tokens", () => {
+    assert.equal(policyTokenKey("usdc", resolvers.resolveToken), "USDC");
+    assert.equal(policyTokenKey(USDC.address, resolvers.resolveToken), "USDC");
+  });
+
+  it("uses the lowercase address for unlisted tokens and rejects unknown names", () => {
+    assert.equal(policyTokenKey(UNLISTED.toUpperCase().replace("0X", "0x"), resolvers.resolveToken), UNLISTED);
+    assert.equal(policyTokenKey("foo", resolvers.resolveToken), null);
+  });
+});
+
+describe("SpendingPolicy", () => {
+  it("enforces a cap set on an unlisted token's address", async () => {
+    const policy = new SpendingPolicy(join(dataDir, "policy.json"), join(dataDir, "spend.json"), resolvers);
+    policy.updateRules((r) => {
+      r.maxPerTx[policyTokenKey(UNLISTED, resolvers.resolveToken)!] = 5;
+    });
+    const violation = await policy.check(
+      "ERC20ActionProvider_transfer",
+      { tokenAddress: UNLISTED, amount: "10", destinationAddress: RECIPIENT },
+      "1001",
+    );
+    assert.match(violation ?? "", /per-transaction cap of 5/);
+  });
+});
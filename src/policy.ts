@@ -0,0 +1,236 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { getCaller } from "./access.js";
+import { actionError, ActionResult, failedBeforeBroadcast } from "./actions.js";
+import type { ConfirmResolvers } from "./confirm.js";
+
+// ============================================================
+// VALUE MOVEMENTS
+// ============================================================
+export interface ValueMovement {
+  kind: "send" | "swap" | "approve" | "wrap";
+  token: string;
+  amount: number;
+  recipient?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The key rules and spend counters use for a token: the registry symbol in upper
+ * case, or the lowercase contract address for tokens outside the registry.
+ * Null for a name that is neither.
+ */
+export function policyTokenKey(input: string, resolveToken: ConfirmResolvers["resolveToken"]): string | null {
+  const token = resolveToken(input);
+  if (token) return token.symbol.toUpperCase();
+  return /^0x[0-9a-fA-F]{40}$/.test(input) ? input.toLowerCase() : null;
+}
+
+/** Extracts the token, amount and recipient an AgentKit action would move. */
+export function parseValueMovement(
+  actionName: string,
+  args: Record<string, any>,
+  resolveToken: ConfirmResolvers["resolveToken"],
+): ValueMovement | null {
+  const symbolOf = (address: string | undefined) => (address && policyTokenKey(address, resolveToken)) || (address ?? "?").toLowerCase();
+
+  switch (actionName) {
+    case "WalletActionProvider_native_transfer":
+      return { kind: "send", token: "ETH", amount: parseFloat(args.value), recipient: args.to };
+    case "ERC20ActionProvider_transfer":
+      return { kind: "send", token: symbolOf(args.tokenAddress), amount: parseFloat(args.amount), recipient: args.destinationAddress };
+    case "ERC20ActionProvider_approve":
+      return { kind: "approve", token: symbolOf(args.tokenAddress), amount: parseFloat(args.amount), recipient: args.spenderAddress };
+    case "WethActionProvider_wrap_eth":
+      return { kind: "wrap", token: "ETH", amount: parseFloat(args.amountToWrap) };
+    case "WethActionProvider_unwrap_eth":
+      return { kind: "wrap", token: "WETH", amount: parseFloat(args.amountToUnwrap) };
+    case "CdpSmartWalletActionProvider_swap":
+      return { kind: "swap", token: symbolOf(args.fromToken), amount: parseFloat(args.fromAmount) };
+    default:
+      return null;
+  }
+}
+
+// ============================================================
+// RULES & SPEND COUNTERS
+// ============================================================
+export interface PolicyRules {
+  maxPerTx: Record<string, number>;
+  dailyLimit: Record<string, number>;
+  userDailyLimit: Record<string, number>;
+  recipientAllowlist: string[];
+  recipientDenylist: string[];
+  neverSell: string[];
+}
+
+interface SpendEntry {
+  ts: number;
+  userId: string;
+  token: string;
+  amount: number;
+}
+
+const EMPTY_RULES: PolicyRules = {
+  maxPerTx: {},
+  dailyLimit: {},
+  userDailyLimit: {},
+  recipientAllowlist: [],
+  recipientDenylist: [],
+  neverSell: [],
+};
+
+function readJson<T>(file: string, fallback: T): T {
+  try {
+    if (existsSync(file)) return JSON.parse(readFileSync(file, "utf-8"));
+  } catch (err) {
+    console.error(`Failed to read ${file}:`, err);
+  }
+  return fallback;
+}
+
+function writeJson(file: string, data: unknown): void {
+  try {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(data, null, 2));
+  } catch (err) {
+    console.error(`Failed to write ${file}:`, err);
+  }
+}
+
+export class SpendingPolicy {
+  private rules: PolicyRules;
+  private spends: SpendEntry[];
+
+  constructor(
+    private readonly rulesFile: string,
+    private readonly spendFile: string,
+    private readonly resolvers: ConfirmResolvers,
+  ) {
+    this.rules = { ...structuredClone(EMPTY_RULES), ...readJson<Partial<PolicyRules>>(rulesFile, {}) };
+    this.spends = readJson<SpendEntry[]>(spendFile, []);
+    this.prune();
+  }
+
+  getRules(): PolicyRules {
+    return this.rules;
+  }
+
+  updateRules(update: (rules: PolicyRules) => void): void {
+    update(this.rules);
+    writeJson(this.rulesFile, this.rules);
+  }
+
+  /** Total spent of a token in the last 24h, optionally for a single user. */
+  spentToday(token: string, userId?: string): number {
+    const since = Date.now() - DAY_MS;
+    return this.spends
+      .filter((s) => s.ts > since && s.token === token && (!userId || s.userId === userId))
+      .reduce((sum, s) => sum + s.amount, 0);
+  }
+
+  /** Returns the reason an action is refused, or null when the rules allow it. */
+  async check(actionName: string, args: Record<string, any>, userId: string): Promise<string | null> {
+    const movement = parseValueMovement(actionName, args, this.resolvers.resolveToken);
+    if (!movement) return null;
+    const { token, amount } = movement;
+
+    if (!Number.isFinite(amount) || amount <= 0) return `Invalid amount "${amount}"`;
+
+    if (movement.kind === "swap" && this.rules.neverSell.includes(token)) {
+      return `${token} is on the never-sell list`;
+    }
+
+    const maxTx = this.rules.maxPerTx[token];
+    if (maxTx !== undefined && amount > maxTx) {
+      return `${amount} ${token} exceeds the per-transaction cap of ${maxTx} ${token}`;
+    }
+
+    if (movement.recipient) {
+      const { address } = await this.resolvers.resolveAddress(movement.recipient);
+      if (!address) return `Recipient ${movement.recipient} does not resolve to a valid address`;
+      const recipient = address.toLowerCase();
+      if (this.rules.recipientDenylist.includes(recipient)) {
+        return `Recipient ${movement.recipient} is on the denylist`;
+      }
+      if (this.rules.recipientAllowlist.length > 0 && !this.rules.recipientAllowlist.includes(recipient)) {
+        return `Recipient ${movement.recipient} is not on the allowlist`;
+      }
+    }
+
+    return this.limitViolation(movement, userId);
+  }
+
+  private limitViolation(movement: ValueMovement, userId: string): string | null {
+    if (movement.kind !== "send" && movement.kind !== "swap") return null;
+    const { token, amount } = movement;
+    this.prune();
+    const daily = this.rules.dailyLimit[token];
+    if (daily !== undefined && this.spentToday(token) + amount > daily) {
+      return `Would exceed the 24h limit of ${daily} ${token} (${this.spentToday(token)} ${token} already spent)`;
+    }
+    const userDaily = this.rules.userDailyLimit[token];
+    if (userDaily !== undefined && this.spentToday(token, userId) + amount > userDaily) {
+      return `Would exceed your 24h limit of ${userDaily} ${token} (${this.spentToday(token, userId)} ${token} already spent)`;
+    }
+    return null;
+  }
+
+  /**
+   * Counts an action towards the rolling 24h limits before it runs, so one that
+   * times out but still lands on chain isn't free to retry. The limits are checked
+   * again because another action may have reserved since check() resolved.
+   */
+  reserve(actionName: string, args: Record<string, any>, userId: string): { violation: string } | { reservation: SpendEntry | null } {
+    const movement = parseValueMovement(actionName, args, this.resolvers.resolveToken);
+    if (!movement || (movement.kind !== "send" && movement.kind !== "swap")) return { reservation: null };
+    const violation = this.limitViolation(movement, userId);
+    if (violation) return { violation };
+    const reservation = { ts: Date.now(), userId, token: movement.token, amount: movement.amount };
+    this.spends.push(reservation);
+    writeJson(this.spendFile, this.spends);
+    return { reservation };
+  }
+
+  /** Gives back a reservation for an action that never reached the chain. */
+  release(reservation: SpendEntry): void {
+    this.spends = this.spends.filter((s) => s !== reservation);
+    writeJson(this.spendFile, this.spends);
+  }
+
+  private prune(): void {
+    const since = Date.now() - DAY_MS;
+    this.spends = this.spends.filter((s) => s.ts > since);
+  }
+}
+
+/**
+ * Wraps an action runner so every call is checked against the policy first.
+ * Refusals never reach the runner, so they are passed to onRefused for the audit log.
+ */
+export function withPolicy(
+  policy: SpendingPolicy,
+  execute: (actionName: string, args?: Record<string, any>) => Promise<ActionResult>,
+  onRefused: (actionName: string, args: Record<string, any>, result: ActionResult) => void = () => {},
+): (actionName: string, args?: Record<string, any>) => Promise<ActionResult> {
+  const refuse = (actionName: string, args: Record<string, any>, violation: string) => {
+    console.log(`🛑 Policy refused ${actionName}: ${violation}`);
+    const result = actionError("denied", `Spending policy — ${violation}`);
+    onRefused(actionName, args, result);
+    return result;
+  };
+  return async (actionName, args = {}) => {
+    const userId = getCaller()?.userId ?? "system";
+    const violation = await policy.check(actionName, args, userId);
+    if (violation) return refuse(actionName, args, violation);
+    const reserved = policy.reserve(actionName, args, userId);
+    if ("violation" in reserved) return refuse(actionName, args, reserved.violation);
+    const result = await execute(actionName, args);
+    // Anything else (a timeout, an RPC error) may have been broadcast, so the reservation stays
+    if (reserved.reservation && failedBeforeBroadcast(result)) {
+      policy.release(reserved.reservation);
+    }
+    return result;
+  };
+}
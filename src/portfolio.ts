@@ -0,0 +1,138 @@
+import { formatUnits, PublicClient } from "viem";
+import { ERC20_ABI, NATIVE_TOKEN_ADDRESS, TokenEntry } from "./tokens.js";
+
+// ============================================================
+// PORTFOLIO — batched balances valued through Pyth
+// ============================================================
+export interface Holding {
+  token: TokenEntry;
+  amount: number;
+  usdValue?: number;
+}
+
+export interface Portfolio {
+  holdings: Holding[];
+  failures: Array<{ token: TokenEntry; error: string }>;
+  totalUsd: number;
+}
+
+export type PortfolioClient = Pick<PublicClient, "multicall"> & {
+  chain?: { contracts?: { multicall3?: { address: `0x${string}` } } };
+};
+
+const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+// Multicall3 exposes the native balance so ETH can ride in the same batch
+const MULTICALL3_ABI = [
+  {
+    inputs: [{ name: "addr", type: "address" }],
+    name: "getEthBalance",
+    outputs: [{ name: "balance", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+/** Extracts the USD price from a PythActionProvider_fetch_price result. */
+export function parsePythPrice(result: string): number | null {
+  try {
+    const parsed = JSON.parse(result);
+    const price = parseFloat(parsed.price);
+    return parsed.success && Number.isFinite(price) ? price : null;
+  } catch {
+    return null;
+  }
+}
+
+function isNative(token: TokenEntry): boolean {
+  return token.address.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase();
+}
+
+/**
+ * Reads every token balance in a single multicall and values non-zero holdings
+ * in USD. `fetchPrice` takes a Pyth feed ID and returns the
+ * PythActionProvider_fetch_price result.
+ */
+export async function getPortfolio(
+  client: PortfolioClient,
+  walletAddress: string,
+  tokens: TokenEntry[],
+  fetchPrice: (priceFeedId: string) => Promise<string>,
+): Promise<Portfolio> {
+  const wallet = walletAddress as `0x${string}`;
+  const multicall3 = client.chain?.contracts?.multicall3?.address ?? MULTICALL3_ADDRESS;
+  const onChain = tokens.filter((t) => t.address);
+
+  const results = await client.multicall({
+    allowFailure: true,
+    contracts: onChain.map((token) =>
+      isNative(token)
+        ? { address: multicall3, abi: MULTICALL3_ABI, functionName: "getEthBalance", args: [wallet] } as const
+        : { address: token.address as `0x${string}`, abi: ERC20_ABI, functionName: "balanceOf", args: [wallet] } as const,
+    ),
+  });
+
+  const holdings: Holding[] = [];
+  const failures: Portfolio["failures"] = [];
+  results.forEach((result, i) => {
+    const token = onChain[i];
+    if (result.status === "failure") {
+      failures.push({ token, error: (result.error as any)?.shortMessage ?? result.error.message });
+      return;
+    }
+    const amount = parseFloat(formatUnits(result.result as bigint, token.decimals));
+    if (amount > 0) holdings.push({ token, amount });
+  });
+
+  // One Pyth lookup per distinct feed (ETH and WETH share one)
+  const prices = new Map<string, number>();
+  const feedIds = [...new Set(holdings.map((h) => h.token.pythFeedId).filter((id): id is string => !!id))];
+  await Promise.all(feedIds.map(async (feedId) => {
+    const price = parsePythPrice(await fetchPrice(feedId));
+    if (price !== null) prices.set(feedId, price);
+  }));
+
+  let totalUsd = 0;
+  for (const holding of holdings) {
+    const price = holding.token.pythFeedId ? prices.get(holding.token.pythFeedId) : undefined;
+    if (price !== undefined) {
+      holding.usdValue = holding.amount * price;
+      totalUsd += holding.usdValue;
+    }
+  }
+  holdings.sort((a, b) => (b.usdValue ?? 0) - (a.usdValue ?? 0));
+
+  return { holdings, failures, totalUsd };
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatTokenAmount(amount: number): string {
+  return amount >= 1 ? amount.toLocaleString("en-US", { maximumFractionDigits: 4 }) : amount.toPrecision(4);
+}
+
+export function formatPortfolio(portfolio: Portfolio, network?: string): string {
+  const lines = [`💼 Portfolio${network ? ` (${network})` : ""}`, ""];
+
+  if (portfolio.holdings.length === 0) {
+    lines.push("No token balances.");
+  }
+  for (const h of portfolio.holdings) {
+    if (h.usdValue === undefined) {
+      lines.push(`${h.token.symbol}: ${formatTokenAmount(h.amount)} — no price`);
+      continue;
+    }
+    const share = portfolio.totalUsd > 0 ? (h.usdValue / portfolio.totalUsd) * 100 : 0;
+    lines.push(`${h.token.symbol}: ${formatTokenAmount(h.amount)} — ${formatUsd(h.usdValue)} (${share.toFixed(1)}%)`);
+  }
+
+  lines.push("", `Total: ${formatUsd(portfolio.totalUsd)}`);
+
+  if (portfolio.failures.length > 0) {
+    lines.push("", "⚠️ Could not read:");
+    for (const f of portfolio.failures) lines.push(`• ${f.token.symbol} — ${f.error}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,114 @@
+// ============================================================
+// PER-CHAT QUEUE, WRITE SLOTS & RATE LIMITING
+// ============================================================
+export interface QueuedTask {
+  chatId: string;
+  label: string;
+  enqueuedAt: number;
+  startedAt?: number;
+}
+
+/** Runs each chat's tasks one at a time, in arrival order. Different chats run in parallel. */
+export class ChatQueue {
+  private tails = new Map<string, Promise<void>>();
+  private tasks = new Map<string, QueuedTask[]>();
+
+  constructor(private readonly maxPerChat: number) {}
+
+  /**
+   * Queues a task and returns its position (0 = runs now), or null when the
+   * chat's queue is full. The returned promise settles when the task is done.
+   */
+  enqueue(chatId: string, label: string, run: () => Promise<void>): { position: number; done: Promise<void> } | null {
+    const list = this.tasks.get(chatId) ?? [];
+    if (list.length >= this.maxPerChat) return null;
+
+    const task: QueuedTask = { chatId, label, enqueuedAt: Date.now() };
+    list.push(task);
+    this.tasks.set(chatId, list);
+
+    const done = (this.tails.get(chatId) ?? Promise.resolve()).then(async () => {
+      task.startedAt = Date.now();
+      try {
+        await run();
+      } catch (err) {
+        console.error(`Queued task failed in chat ${chatId}:`, err);
+      } finally {
+        const remaining = (this.tasks.get(chatId) ?? []).filter((t) => t !== task);
+        if (remaining.length > 0) this.tasks.set(chatId, remaining);
+        else this.tasks.delete(chatId);
+      }
+    });
+    this.tails.set(chatId, done);
+    done.then(() => {
+      if (this.tails.get(chatId) === done) this.tails.delete(chatId);
+    });
+    return { position: list.length - 1, done };
+  }
+
+  pending(chatId?: string): QueuedTask[] {
+    if (chatId) return [...(this.tasks.get(chatId) ?? [])];
+    return [...this.tasks.values()].flat();
+  }
+
+  size(): number {
+    return this.pending().length;
+  }
+}
+
+/** Caps how many tasks run at once; the rest wait in FIFO order. */
+export class Semaphore {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private readonly limit: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      await new Promise<void>((resolve) => this.waiters.push(resolve));
+    } else {
+      this.active++;
+    }
+    try {
+      return await task();
+    } finally {
+      const next = this.waiters.shift();
+      // Hand the slot straight to the next waiter instead of releasing it
+      if (next) next();
+      else this.active--;
+    }
+  }
+
+  stats(): { active: number; waiting: number; limit: number } {
+    return { active: this.active, waiting: this.waiters.length, limit: this.limit };
+  }
+}
+
+/** Sliding-window limiter keyed by user. */
+export class RateLimiter {
+  private hits = new Map<string, number[]>();
+  private warned = new Map<string, number>();
+
+  constructor(private readonly max: number, private readonly windowMs: number) {}
+
+  /** Returns 0 when allowed, otherwise the milliseconds until the next slot frees up. */
+  check(key: string): number {
+    const now = Date.now();
+    const recent = (this.hits.get(key) ?? []).filter((t) => now - t < this.windowMs);
+    if (recent.length >= this.max) {
+      this.hits.set(key, recent);
+      return this.windowMs - (now - recent[0]);
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return 0;
+  }
+
+  /** True the first time a key is limited within a window, so the "slow down" reply isn't spammed. */
+  shouldWarn(key: string): boolean {
+    const last = this.warned.get(key) ?? 0;
+    if (Date.now() - last < this.windowMs) return false;
+    this.warned.set(key, Date.now());
+    return true;
+  }
+}
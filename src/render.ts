@@ -0,0 +1,149 @@
+import type { Api, Context } from "grammy";
+import { metrics } from "./metrics.js";
+
+// ============================================================
+// TELEGRAM RENDERING — Markdown → HTML, splitting, fallbacks
+// ============================================================
+export const TELEGRAM_MAX_LENGTH = 4096;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Converts the Markdown the agent and our own templates produce into Telegram
+ * HTML. `**x**` and `*x*` are bold (Telegram's legacy Markdown treated single
+ * stars as bold, and existing texts rely on that), `_x_` is italic, `~~x~~` is
+ * strikethrough, `# Heading` becomes bold. Markers inside words
+ * (`native_transfer`) are left alone, and everything else is escaped.
+ */
+export function markdownToHtml(markdown: string): string {
+  const protectedParts: string[] = [];
+  const protect = (html: string) => `\u0000${protectedParts.push(html) - 1}\u0000`;
+
+  let text = markdown
+    .replace(/```(\w*)\n?([\s\S]*?)```/g, (_, lang: string, code: string) =>
+      protect(lang
+        ? `<pre><code class="language-${lang}">${escapeHtml(code.replace(/\n$/, ""))}</code></pre>`
+        : `<pre>${escapeHtml(code.replace(/\n$/, ""))}</pre>`))
+    .replace(/`([^`\n]+)`/g, (_, code: string) => protect(`<code>${escapeHtml(code)}</code>`));
+
+  text = escapeHtml(text)
+    .replace(/\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/g, (_, label: string, url: string) =>
+      protect(`<a href="${url.replace(/"/g, "&quot;")}">${label}</a>`))
+    .replace(/^#{1,6}\s+(.+)$/gm, "<b>$1</b>")
+    .replace(/\*\*(?!\s)([^\n]+?)(?<!\s)\*\*/g, "<b>$1</b>")
+    .replace(/__(?!\s)([^\n]+?)(?<!\s)__/g, "<b>$1</b>")
+    .replace(/(^|[^\w*])\*(?![\s*])([^*\n]+?)(?<!\s)\*(?![\w*])/g, "$1<b>$2</b>")
+    .replace(/(^|[^\w])_(?![\s_])([^_\n]+?)(?<!\s)_(?!\w)/g, "$1<i>$2</i>")
+    .replace(/~~(?!\s)([^\n]+?)(?<!\s)~~/g, "<s>$1</s>");
+
+  return text.replace(/\u0000(\d+)\u0000/g, (_, i: string) => protectedParts[Number(i)]);
+}
+
+// Splits Markdown into paragraphs and fenced code blocks, keeping fences intact
+function splitBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  const fence = /```[\s\S]*?```/g;
+  let last = 0;
+  for (const match of markdown.matchAll(fence)) {
+    blocks.push(...markdown.slice(last, match.index).split(/\n{2,}/));
+    blocks.push(match[0]);
+    last = match.index! + match[0].length;
+  }
+  blocks.push(...markdown.slice(last).split(/\n{2,}/));
+  return blocks.map((b) => b.replace(/^\n+|\n+$/g, "")).filter((b) => b.trim());
+}
+
+function fits(markdown: string, limit: number): boolean {
+  return markdownToHtml(markdown).length <= limit;
+}
+
+// Breaks a single oversized block into pieces that each render within the limit.
+// Code blocks are re-fenced per piece so every chunk stays well-formed.
+function splitOversized(block: string, limit: number): string[] {
+  const fenceMatch = block.match(/^```(\w*)\n?([\s\S]*?)```$/);
+  const wrap = fenceMatch ? (body: string) => `\`\`\`${fenceMatch[1]}\n${body}\n\`\`\`` : (body: string) => body;
+  const lines = (fenceMatch ? fenceMatch[2].replace(/\n$/, "") : block).split("\n");
+
+  const pieces: string[] = [];
+  let current: string[] = [];
+  const flush = () => {
+    if (current.length > 0) pieces.push(wrap(current.join("\n")));
+    current = [];
+  };
+  for (const line of lines) {
+    if (fits(wrap([...current, line].join("\n")), limit)) {
+      current.push(line);
+      continue;
+    }
+    flush();
+    if (fits(wrap(line), limit)) {
+      current.push(line);
+      continue;
+    }
+    // A single line longer than a message: cut it by characters
+    let rest = line;
+    while (rest) {
+      let size = Math.min(rest.length, limit - 32);
+      while (size > 1 && !fits(wrap(rest.slice(0, size)), limit)) size = Math.floor(size / 2);
+      pieces.push(wrap(rest.slice(0, size)));
+      rest = rest.slice(size);
+    }
+  }
+  flush();
+  return pieces;
+}
+
+/** Splits Markdown into chunks that each render to at most `limit` characters of HTML. */
+export function splitMarkdown(markdown: string, limit = TELEGRAM_MAX_LENGTH): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const block of splitBlocks(markdown)) {
+    const candidate = current ? `${current}\n\n${block}` : block;
+    if (fits(candidate, limit)) {
+      current = candidate;
+      continue;
+    }
+    if (current) chunks.push(current);
+    current = "";
+    if (fits(block, limit)) {
+      current = block;
+    } else {
+      chunks.push(...splitOversized(block, limit));
+    }
+  }
+  if (current) chunks.push(current);
+  return chunks.length > 0 ? chunks : [markdown.slice(0, limit) || " "];
+}
+
+/**
+ * Sends Markdown text as one or more HTML messages. Each chunk that Telegram
+ * rejects as HTML is resent as plain text; a chunk that fails both ways is
+ * logged and counted, and the remaining chunks are still sent. Resolves to
+ * false if any chunk could not be delivered.
+ */
+export async function sendRich(api: Api, chatId: number | string, markdown: string): Promise<boolean> {
+  let delivered = true;
+  for (const chunk of splitMarkdown(markdown)) {
+    try {
+      await api.sendMessage(chatId, markdownToHtml(chunk), { parse_mode: "HTML", link_preview_options: { is_disabled: true } });
+      continue;
+    } catch (err: any) {
+      metrics.telegramFailures.inc({ kind: "html_fallback" });
+      console.warn(`⚠️  HTML rejected (${err.description ?? err.message}), sending plain text`);
+    }
+    try {
+      await api.sendMessage(chatId, chunk);
+    } catch (err) {
+      delivered = false;
+      console.error(`Failed to deliver message chunk to ${chatId}:`, err);
+    }
+  }
+  return delivered;
+}
+
+/** Replies in the current chat with {@link sendRich}. */
+export function reply(ctx: Context, markdown: string): Promise<boolean> {
+  return sendRich(ctx.api, ctx.chat!.id, markdown);
+}
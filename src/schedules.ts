@@ -0,0 +1,298 @@
+import { randomBytes } from "crypto";
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import type { ActionResult } from "./actions.js";
+
+// ============================================================
+// CRON EXPRESSIONS — "minute hour day-of-month month day-of-week", UTC
+// ============================================================
+export interface CronSpec {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+// Day-of-week allows 7 so ranges like "5-7" parse; it is folded into 0 afterwards
+const FIELDS: Array<[min: number, max: number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+function parseField(field: string, [min, max]: [number, number]): Set<number> | null {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|\d+)(?:-(\d+))?(?:\/(\d+))?$/);
+    if (!match) return null;
+    const start = match[1] === "*" ? min : Number(match[1]);
+    const end = match[2] !== undefined ? Number(match[2]) : match[1] === "*" || match[3] ? max : start;
+    const step = match[3] ? Number(match[3]) : 1;
+    if (start < min || end > max || start > end || step < 1) return null;
+    for (let v = start; v <= end; v += step) values.add(v);
+  }
+  return values;
+}
+
+/** Parses a five-field cron expression. Day-of-week 7 is accepted as Sunday. */
+export function parseCron(expression: string): CronSpec | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+  const parsed = fields.map((f, i) => parseField(f, FIELDS[i]));
+  if (parsed.some((p) => !p)) return null;
+  const [minutes, hours, days, months, weekdays] = parsed as Set<number>[];
+  if (weekdays.delete(7)) weekdays.add(0);
+  return { minutes, hours, days, months, weekdays, anyDay: fields[2] === "*", anyWeekday: fields[4] === "*" };
+}
+
+// Standard cron semantics: when both day fields are restricted, either may match
+function dayMatches(spec: CronSpec, date: Date): boolean {
+  const dom = spec.days.has(date.getUTCDate());
+  const dow = spec.weekdays.has(date.getUTCDay());
+  if (spec.anyDay) return dow;
+  if (spec.anyWeekday) return dom;
+  return dom || dow;
+}
+
+/** First time strictly after `after` that matches the spec, or null if none within ~5 years. */
+export function nextRun(spec: CronSpec, after: Date): Date | null {
+  const t = new Date(after.getTime());
+  t.setUTCSeconds(0, 0);
+  t.setUTCMinutes(t.getUTCMinutes() + 1);
+  const limit = after.getTime() + 5 * 366 * 86_400_000;
+  while (t.getTime() < limit) {
+    if (!spec.months.has(t.getUTCMonth() + 1)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1);
+      t.setUTCHours(0, 0);
+      continue;
+    }
+    if (!dayMatches(spec, t)) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0);
+      continue;
+    }
+    if (!spec.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0);
+      continue;
+    }
+    if (!spec.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1);
+      continue;
+    }
+    return t;
+  }
+  return null;
+}
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+/**
+ * Splits a recurrence off a request: either a leading cron expression
+ * ("0 9 * * 1 send 50 usdc to treasury") or an "every ..." phrase anywhere
+ * ("buy $10 of eth with usdc every day at 09:00"). Unspecified times default to 09:00 UTC.
+ */
+export function parseRecurrence(text: string): { cron: string; rest: string } | null {
+  const fields = text.trim().split(/\s+/);
+  const leading = fields.slice(0, 5).join(" ");
+  if (fields.length > 5 && parseCron(leading)) return { cron: leading, rest: fields.slice(5).join(" ") };
+
+  const match = text.match(
+    /\bevery\s+(hour|day|weekday|week|month|sunday|monday|tuesday|wednesday|thursday|friday|saturday)s?(?:\s+at\s+(\d{1,2})(?::(\d{2}))?\s*(am|pm)?)?\b/i,
+  );
+  if (!match) return null;
+
+  let hour = match[2] !== undefined ? Number(match[2]) : 9;
+  const minute = match[3] !== undefined ? Number(match[3]) : 0;
+  const meridiem = match[4]?.toLowerCase();
+  if (meridiem === "pm" && hour < 12) hour += 12;
+  if (meridiem === "am" && hour === 12) hour = 0;
+  if (hour > 23 || minute > 59) return null;
+
+  const unit = match[1].toLowerCase();
+  const cron = unit === "hour" ? `${minute} * * * *`
+    : unit === "day" ? `${minute} ${hour} * * *`
+    : unit === "weekday" ? `${minute} ${hour} * * 1-5`
+    : unit === "week" ? `${minute} ${hour} * * 1`
+    : unit === "month" ? `${minute} ${hour} 1 * *`
+    : `${minute} ${hour} * * ${WEEKDAYS.indexOf(unit)}`;
+  const rest = (text.slice(0, match.index) + text.slice(match.index! + match[0].length)).replace(/\s+/g, " ").trim();
+  return { cron, rest };
+}
+
+// ============================================================
+// SCHEDULE STORE
+// ============================================================
+export type ScheduleStatus = "active" | "paused";
+
+export interface Schedule {
+  id: string;
+  chatId: string;
+  userId: string;
+  userName: string;
+  cron: string;
+  /** The request as the user wrote it, e.g. "buy $10 of eth with usdc". */
+  description: string;
+  actionName: string;
+  args: Record<string, any>;
+  status: ScheduleStatus;
+  nextRunAt: number | null;
+  createdAt: string;
+  lastRunAt?: number;
+  lastResult?: string;
+}
+
+export class ScheduleStore {
+  private schedules: Schedule[] = [];
+
+  constructor(private readonly file: string) {
+    try {
+      if (existsSync(file)) {
+        this.schedules = JSON.parse(readFileSync(file, "utf-8"));
+        console.log(`🗓️  Loaded ${this.schedules.length} schedule(s)`);
+      }
+    } catch (err) {
+      console.error("Failed to load schedules:", err);
+    }
+  }
+
+  add(schedule: Omit<Schedule, "id" | "createdAt" | "status" | "nextRunAt">): Schedule {
+    const spec = parseCron(schedule.cron);
+    if (!spec) throw new Error(`Invalid cron expression: ${schedule.cron}`);
+    const created: Schedule = {
+      ...schedule,
+      id: randomBytes(3).toString("hex"),
+      status: "active",
+      nextRunAt: nextRun(spec, new Date())?.getTime() ?? null,
+      createdAt: new Date().toISOString(),
+    };
+    this.schedules.push(created);
+    this.save();
+    return created;
+  }
+
+  get(chatId: string, id: string): Schedule | undefined {
+    return this.schedules.find((s) => s.id === id && s.chatId === chatId);
+  }
+
+  remove(chatId: string, id: string): boolean {
+    const before = this.schedules.length;
+    this.schedules = this.schedules.filter((s) => !(s.id === id && s.chatId === chatId));
+    if (this.schedules.length === before) return false;
+    this.save();
+    return true;
+  }
+
+  /** Pausing keeps the schedule; resuming recomputes the next run from now so nothing fires for the paused period. */
+  setStatus(chatId: string, id: string, status: ScheduleStatus): Schedule | undefined {
+    const schedule = this.get(chatId, id);
+    if (!schedule) return undefined;
+    schedule.status = status;
+    if (status === "active") schedule.nextRunAt = nextRun(parseCron(schedule.cron)!, new Date())?.getTime() ?? null;
+    this.save();
+    return schedule;
+  }
+
+  update(schedule: Schedule, changes: Partial<Schedule>): void {
+    Object.assign(schedule, changes);
+    this.save();
+  }
+
+  forChat(chatId: string): Schedule[] {
+    return this.schedules.filter((s) => s.chatId === chatId);
+  }
+
+  all(): Schedule[] {
+    return [...this.schedules];
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(this.file, JSON.stringify(this.schedules, null, 2));
+    } catch (err) {
+      console.error("Failed to save schedules:", err);
+    }
+  }
+}
+
+// ============================================================
+// RUNNER
+// ============================================================
+/**
+ * What happens to runs that were due while the bot was down:
+ * - "skip": missed runs are reported and dropped; the schedule continues from the next future time
+ * - "once": one catch-up run happens now, however many were missed
+ * Runs that are late by no more than the grace period always execute normally.
+ */
+export type CatchUpPolicy = "skip" | "once";
+
+export interface SchedulerOptions {
+  intervalMs: number;
+  graceMs: number;
+  catchUp: CatchUpPolicy;
+  run: (schedule: Schedule) => Promise<ActionResult>;
+  notify: (message: string) => Promise<void>;
+}
+
+export function formatSchedule(schedule: Schedule): string {
+  const next = schedule.status === "paused" ? "paused"
+    : schedule.nextRunAt ? `next ${new Date(schedule.nextRunAt).toISOString().replace("T", " ").slice(0, 16)} UTC`
+    : "no future runs";
+  const last = schedule.lastRunAt ? `\n   last: ${schedule.lastResult ?? "?"}` : "";
+  return `${schedule.status === "paused" ? "⏸" : "🗓️"} ${schedule.id} — ${schedule.description}\n   ${schedule.cron} (${next})${last}`;
+}
+
+function countMissed(spec: CronSpec, from: number, now: number): number {
+  let count = 0;
+  let t: Date | null = new Date(from - 60_000);
+  while (count < 1000 && (t = nextRun(spec, t)) && t.getTime() <= now) count++;
+  return count;
+}
+
+export async function runDueSchedules(store: ScheduleStore, options: SchedulerOptions, now = Date.now()): Promise<void> {
+  for (const schedule of store.all()) {
+    if (schedule.status !== "active" || schedule.nextRunAt === null || schedule.nextRunAt > now) continue;
+    const spec = parseCron(schedule.cron);
+    if (!spec) continue;
+
+    const late = now - schedule.nextRunAt > options.graceMs;
+    const missed = late ? countMissed(spec, schedule.nextRunAt, now) : 0;
+    // Advance first so a crash mid-run can't repeat the same occurrence
+    store.update(schedule, { nextRunAt: nextRun(spec, new Date(now))?.getTime() ?? null });
+
+    if (late && options.catchUp === "skip") {
+      console.log(`⏭️  Skipped ${missed} missed run(s) of schedule ${schedule.id}`);
+      await options.notify(`⏭️ Schedule ${schedule.id} (${schedule.description}) missed ${missed} run(s) while the bot was offline; skipped per catch-up policy.`);
+      continue;
+    }
+
+    console.log(`🗓️  Running schedule ${schedule.id}: ${schedule.description}`);
+    const result = await options.run(schedule);
+    const outcome = result.ok ? "✅ done" : `❌ ${result.kind}: ${result.message}`;
+    store.update(schedule, { lastRunAt: now, lastResult: outcome.slice(0, 200) });
+    await options.notify(
+      `🗓️ Schedule ${schedule.id} — ${schedule.description}\n` +
+      (late ? `Catch-up run for ${missed} missed run(s)\n` : "") +
+      `${result.ok ? `✅ Done\n${result.output}` : `❌ Failed (${result.kind})\n${result.message}`}`,
+    );
+  }
+}
+
+export function startScheduler(store: ScheduleStore, options: SchedulerOptions): NodeJS.Timeout {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueSchedules(store, options);
+    } catch (err) {
+      console.error("Scheduler error:", err);
+    } finally {
+      running = false;
+    }
+  };
+  const timer = setInterval(tick, options.intervalMs);
+  timer.unref();
+  // Handle anything that came due while we were down without waiting a full interval
+  void tick();
+  return timer;
+}
@@ -0,0 +1,66 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+
+// ============================================================
+// HTTP SERVER — Telegram webhook, health/readiness probes and metrics
+// ============================================================
+export type RequestHandler = (req: IncomingMessage, res: ServerResponse) => unknown;
+
+export interface HttpServerOptions {
+  port: number;
+  webhookPath: string;
+  /** Resolved once the bot is built; webhook requests get 503 until then. */
+  getWebhookHandler: () => RequestHandler | null;
+  isReady: () => Promise<{ ready: boolean; checks: Record<string, boolean> }>;
+  isShuttingDown: () => boolean;
+  renderMetrics?: () => string;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export function startHttpServer(options: HttpServerOptions): Server {
+  const server = createServer(async (req, res) => {
+    const path = (req.url || "/").split("?")[0];
+    try {
+      if (req.method === "GET" && path === "/healthz") {
+        sendJson(res, options.isShuttingDown() ? 503 : 200, { status: options.isShuttingDown() ? "shutting-down" : "ok" });
+        return;
+      }
+      if (req.method === "GET" && path === "/readyz") {
+        if (options.isShuttingDown()) {
+          sendJson(res, 503, { ready: false, checks: {}, status: "shutting-down" });
+          return;
+        }
+        const readiness = await options.isReady();
+        sendJson(res, readiness.ready ? 200 : 503, readiness);
+        return;
+      }
+      if (req.method === "GET" && path === "/metrics" && options.renderMetrics) {
+        res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+        res.end(options.renderMetrics());
+        return;
+      }
+      if (req.method === "POST" && path === options.webhookPath) {
+        const handler = options.getWebhookHandler();
+        if (!handler || options.isShuttingDown()) {
+          // Telegram retries non-2xx responses, so nothing is lost while we start or stop
+          sendJson(res, 503, { error: "not accepting updates" });
+          return;
+        }
+        await handler(req, res);
+        return;
+      }
+      sendJson(res, 404, { error: "not found" });
+    } catch (err: any) {
+      console.error("HTTP handler error:", err);
+      if (!res.headersSent) sendJson(res, 500, { error: "internal error" });
+    }
+  });
+
+  server.listen(options.port, () => {
+    console.log(`🌍 HTTP server listening on :${options.port} (health: /healthz, /readyz${options.renderMetrics ? ", metrics: /metrics" : ""})`);
+  });
+  return server;
+}
@@ -0,0 +1,166 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+
+// ============================================================
+// SKILL CATALOG — browsing and per-chat toggles
+// ============================================================
+/** The fields of a package skill the catalog reads; examples are optional. */
+export interface SkillInfo {
+  name: string;
+  category: string;
+  description?: string;
+  examples?: string[];
+}
+
+export const SKILLS_PER_PAGE = 8;
+
+export interface SkillCatalog {
+  /** Category names, sorted. Callback data refers to them by index to stay under 64 bytes. */
+  categories: string[];
+  byCategory: Map<string, SkillInfo[]>;
+  /** Every skill, sorted by name, indexed the same way. */
+  skills: SkillInfo[];
+}
+
+export function buildCatalog(all: SkillInfo[]): SkillCatalog {
+  const byCategory = new Map<string, SkillInfo[]>();
+  for (const skill of all) {
+    byCategory.set(skill.category, [...(byCategory.get(skill.category) ?? []), skill]);
+  }
+  for (const list of byCategory.values()) list.sort((a, b) => a.name.localeCompare(b.name));
+  return {
+    categories: [...byCategory.keys()].sort(),
+    byCategory,
+    skills: [...all].sort((a, b) => a.name.localeCompare(b.name)),
+  };
+}
+
+/** Exact name first, then a unique prefix or substring match. */
+export function findSkill(catalog: SkillCatalog, query: string): SkillInfo | SkillInfo[] | null {
+  const q = query.trim().toLowerCase().replace(/\s+/g, "_");
+  const exact = catalog.skills.find((s) => s.name.toLowerCase() === q);
+  if (exact) return exact;
+  const matches = catalog.skills.filter((s) => s.name.toLowerCase().includes(q));
+  if (matches.length === 1) return matches[0];
+  return matches.length > 0 ? matches : null;
+}
+
+export function pageCount(items: number): number {
+  return Math.max(1, Math.ceil(items / SKILLS_PER_PAGE));
+}
+
+// ============================================================
+// PER-CHAT TOGGLES
+// ============================================================
+function isSkill(value: unknown): value is SkillInfo {
+  return typeof value === "object" && value !== null &&
+    typeof (value as SkillInfo).name === "string" && typeof (value as SkillInfo).category === "string";
+}
+
+// Every function on the skill checks the toggle when it is called, so a skill turned off
+// after it was registered stops running straight away
+function guardSkill<S extends SkillInfo>(skill: S, isEnabled: (skill: SkillInfo) => boolean): S {
+  return new Proxy(skill, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== "function") return value;
+      return function (this: unknown, ...args: unknown[]) {
+        if (!isEnabled(target)) throw new Error(`The ${target.name} skill is turned off in this chat`);
+        return value.apply(this, args);
+      };
+    },
+  });
+}
+
+/**
+ * The registry as registerAllSkills should see it: any skill (an object with a
+ * name and category, alone or in an array) passed to one of its methods is
+ * stored guarded, so it refuses to run wherever isEnabled says no.
+ */
+export function guardSkillRegistry<R extends object>(registry: R, isEnabled: (skill: SkillInfo) => boolean): R {
+  const guard = (value: unknown): unknown =>
+    Array.isArray(value) ? value.map(guard) : isSkill(value) ? guardSkill(value, isEnabled) : value;
+  return new Proxy(registry, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop, target);
+      if (typeof value !== "function") return value;
+      return (...args: unknown[]) => value.apply(target, args.map(guard));
+    },
+  });
+}
+
+interface ChatSkillSettings {
+  disabledCategories: string[];
+  disabledSkills: string[];
+}
+
+export class SkillToggleStore {
+  private chats: Record<string, ChatSkillSettings> = {};
+
+  constructor(private readonly file: string) {
+    try {
+      if (existsSync(file)) {
+        this.chats = JSON.parse(readFileSync(file, "utf-8"));
+        console.log(`🧩 Loaded skill settings for ${Object.keys(this.chats).length} chat(s)`);
+      }
+    } catch (err) {
+      console.error("Failed to load skill settings:", err);
+    }
+  }
+
+  private settings(chatId: string): ChatSkillSettings {
+    return this.chats[chatId] ?? { disabledCategories: [], disabledSkills: [] };
+  }
+
+  isCategoryEnabled(chatId: string, category: string): boolean {
+    return !this.settings(chatId).disabledCategories.includes(category);
+  }
+
+  /** A skill runs only when neither it nor its category is turned off. */
+  isEnabled(chatId: string, skill: Pick<SkillInfo, "name" | "category">): boolean {
+    const settings = this.settings(chatId);
+    return !settings.disabledSkills.includes(skill.name) && !settings.disabledCategories.includes(skill.category);
+  }
+
+  setCategory(chatId: string, category: string, enabled: boolean): void {
+    this.update(chatId, (s) => {
+      s.disabledCategories = s.disabledCategories.filter((c) => c !== category);
+      if (!enabled) s.disabledCategories.push(category);
+    });
+  }
+
+  setSkill(chatId: string, name: string, enabled: boolean): void {
+    this.update(chatId, (s) => {
+      s.disabledSkills = s.disabledSkills.filter((n) => n !== name);
+      if (!enabled) s.disabledSkills.push(name);
+    });
+  }
+
+  /** What's turned off in the chat, for the agent's hint and the overview. */
+  disabled(chatId: string): ChatSkillSettings {
+    const settings = this.settings(chatId);
+    return { disabledCategories: [...settings.disabledCategories], disabledSkills: [...settings.disabledSkills] };
+  }
+
+  private update(chatId: string, change: (settings: ChatSkillSettings) => void): void {
+    const settings = this.disabled(chatId);
+    change(settings);
+    if (settings.disabledCategories.length === 0 && settings.disabledSkills.length === 0) delete this.chats[chatId];
+    else this.chats[chatId] = settings;
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(this.file, JSON.stringify(this.chats, null, 2));
+    } catch (err) {
+      console.error("Failed to save skill settings:", err);
+    }
+  }
+}
+
+/** Prefixed to agent messages in chats with skills turned off. */
+export function disabledSkillsHint(settings: ChatSkillSettings): string {
+  const parts = [
+    ...settings.disabledCategories.map((c) => `${c} skills`),
+    ...settings.disabledSkills,
+  ];
+  return parts.length > 0 ? `[Turned off in this chat, do not use: ${parts.join(", ")}]` : "";
+}
@@ -0,0 +1,260 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { dirname, join } from "path";
+import { isAddress, getAddress, PublicClient } from "viem";
+import type { NetworkId } from "./network.js";
+
+// ============================================================
+// TOKEN REGISTRY — aliases, addresses, decimals, Pyth feed IDs
+// ============================================================
+export interface TokenEntry {
+  symbol: string;
+  name: string;
+  address: string;
+  decimals: number;
+  pythFeedId?: string;
+}
+
+// The subset of a viem public client the registry needs for on-chain checks
+export type TokenReadClient = Pick<PublicClient, "getCode" | "readContract"> & { chain?: { name: string } };
+
+export const NATIVE_TOKEN_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+// Tokens the bot relies on internally; /removetoken refuses to drop them
+export const PROTECTED_TOKENS = ["eth", "weth", "usdc"];
+
+// Network-independent metadata; addresses come from DEFAULT_ADDRESSES
+const DEFAULT_TOKENS: Record<string, Omit<TokenEntry, "address">> = {
+  eth: {
+    symbol: "ETH",
+    name: "Ethereum",
+    decimals: 18,
+    pythFeedId: "0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace",
+  },
+  weth: {
+    symbol: "WETH",
+    name: "Wrapped Ether",
+    decimals: 18,
+    pythFeedId: "0xff61491a931112ddf1bd8147cd1b641375f79f5825126d665480874634fd0ace",
+  },
+  usdc: {
+    symbol: "USDC",
+    name: "USD Coin",
+    decimals: 6,
+    pythFeedId: "0xeaa020c61cc479712813461ce153894a96a6c00b21ed0cfc2798d1f9a9e9c94a",
+  },
+  dai: {
+    symbol: "DAI",
+    name: "Dai Stablecoin",
+    decimals: 18,
+    pythFeedId: "0xb0948a5e5313200c632b51bb5ca32f6de0d36e9950a942d19751e6f20c30bc14",
+  },
+  btc: {
+    symbol: "BTC",
+    name: "Bitcoin",
+    decimals: 8,
+    pythFeedId: "0xe62df6c8b4a85fe1a67db44dc12de5db330f7ac66b72dc658afedf0f4a415b43",
+  },
+  sol: {
+    symbol: "SOL",
+    name: "Solana",
+    decimals: 9,
+    pythFeedId: "0xef0d8b6fda2ceba41da15d4095d1da392a0d2f8ed0c6c7bc0f4cfac8c280b56d",
+  },
+  cbeth: {
+    symbol: "cbETH",
+    name: "Coinbase Wrapped Staked ETH",
+    decimals: 18,
+  },
+  degen: {
+    symbol: "DEGEN",
+    name: "Degen",
+    decimals: 18,
+  },
+  bnkr: {
+    symbol: "BNKR",
+    name: "Bankr",
+    decimals: 18,
+  },
+};
+
+// Contract addresses per network. Tokens without an address on a network are
+// kept only if they have a price feed.
+const DEFAULT_ADDRESSES: Record<NetworkId, Record<string, string>> = {
+  "base-mainnet": {
+    eth: NATIVE_TOKEN_ADDRESS,
+    weth: "0x4200000000000000000000000000000000000006",
+    usdc: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    dai: "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb",
+    cbeth: "0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22",
+    degen: "0x4ed4E862860beD51a9570b96d89aF5E1B0Efefed",
+    bnkr: "0x22aF33FE49fD1Fa80c7149773dDe5890D3c76F3b",
+  },
+  "base-sepolia": {
+    eth: NATIVE_TOKEN_ADDRESS,
+    weth: "0x4200000000000000000000000000000000000006",
+    usdc: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  },
+};
+
+export function defaultTokens(networkId: NetworkId): Record<string, TokenEntry> {
+  const addresses = DEFAULT_ADDRESSES[networkId];
+  const tokens: Record<string, TokenEntry> = {};
+  for (const [key, meta] of Object.entries(DEFAULT_TOKENS)) {
+    const address = addresses[key] ?? "";
+    if (address || meta.pythFeedId) tokens[key] = { ...meta, address };
+  }
+  return tokens;
+}
+
+// Live registry for the active network. Mutated in place so references handed
+// out (e.g. to registerAllSkills) always see the current entries.
+export const TOKEN_REGISTRY: Record<string, TokenEntry> = defaultTokens("base-mainnet");
+
+// ERC20 ABI for balances and metadata
+export const ERC20_ABI = [
+  {
+    inputs: [{ name: "account", type: "address" }],
+    name: "balanceOf",
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [{ name: "", type: "string" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [{ name: "", type: "uint8" }],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export function resolveToken(input: string): TokenEntry | null {
+  const key = input.toLowerCase().trim();
+  if (TOKEN_REGISTRY[key]) return TOKEN_REGISTRY[key];
+  for (const entry of Object.values(TOKEN_REGISTRY)) {
+    if (entry.symbol.toLowerCase() === key) return entry;
+  }
+  if (isAddress(input)) {
+    for (const entry of Object.values(TOKEN_REGISTRY)) {
+      if (entry.address.toLowerCase() === input.toLowerCase()) return entry;
+    }
+  }
+  return null;
+}
+
+// ============================================================
+// REGISTRY PERSISTENCE
+// ============================================================
+/** Each network keeps its own registry file, since token addresses differ per chain. */
+export function tokenRegistryFile(dataDir: string, networkId: NetworkId): string {
+  return join(dataDir, `tokens.${networkId}.json`);
+}
+
+/** Loads the registry for a network, seeding the file with that network's defaults on first run. */
+export function loadTokenRegistry(file: string, networkId: NetworkId): void {
+  let data = defaultTokens(networkId);
+  let seeded = true;
+  try {
+    if (existsSync(file)) {
+      data = JSON.parse(readFileSync(file, "utf-8"));
+      seeded = false;
+      console.log(`🪙 Loaded ${Object.keys(data).length} ${networkId} tokens from`, file);
+    }
+  } catch (err) {
+    console.error("Failed to load token registry, using defaults:", err);
+    seeded = false;
+  }
+  for (const key of Object.keys(TOKEN_REGISTRY)) delete TOKEN_REGISTRY[key];
+  Object.assign(TOKEN_REGISTRY, data);
+  if (seeded) saveTokenRegistry(file);
+}
+
+export function saveTokenRegistry(file: string): void {
+  try {
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, JSON.stringify(TOKEN_REGISTRY, null, 2));
+  } catch (err) {
+    console.error("Failed to save token registry:", err);
+  }
+}
+
+// ============================================================
+// ON-CHAIN VERIFICATION
+// ============================================================
+/** Reads symbol(), name() and decimals() from an ERC20 contract. Throws if it is not one. */
+export async function readTokenMetadata(client: TokenReadClient, address: string): Promise<TokenEntry> {
+  if (!isAddress(address)) throw new Error(`Invalid address: ${address}`);
+  const token = getAddress(address);
+  const code = await client.getCode({ address: token });
+  if (!code || code === "0x") throw new Error(`${token} is not a contract on ${client.chain?.name ?? "this chain"}`);
+
+  const [symbol, name, decimals] = await Promise.all([
+    client.readContract({ address: token, abi: ERC20_ABI, functionName: "symbol" }),
+    client.readContract({ address: token, abi: ERC20_ABI, functionName: "name" }),
+    client.readContract({ address: token, abi: ERC20_ABI, functionName: "decimals" }),
+  ]);
+  return { symbol, name, address: token, decimals: Number(decimals) };
+}
+
+/**
+ * Verifies a token on-chain and adds it under its lowercased symbol. When an
+ * expected symbol is given, the on-chain symbol must match it.
+ */
+export async function addToken(
+  client: TokenReadClient,
+  file: string,
+  address: string,
+  expectedSymbol?: string,
+): Promise<TokenEntry> {
+  const entry = await readTokenMetadata(client, address);
+  if (expectedSymbol && entry.symbol.toLowerCase() !== expectedSymbol.toLowerCase()) {
+    throw new Error(`Symbol mismatch: contract reports ${entry.symbol}, expected ${expectedSymbol}`);
+  }
+  const key = entry.symbol.toLowerCase();
+  const existing = TOKEN_REGISTRY[key];
+  if (existing && existing.address && existing.address.toLowerCase() !== entry.address.toLowerCase()) {
+    throw new Error(`${entry.symbol} is already registered at ${existing.address}`);
+  }
+  TOKEN_REGISTRY[key] = { ...existing, ...entry };
+  saveTokenRegistry(file);
+  return TOKEN_REGISTRY[key];
+}
+
+export function removeToken(file: string, input: string): TokenEntry | null {
+  const key = Object.keys(TOKEN_REGISTRY).find((k) => TOKEN_REGISTRY[k] === resolveToken(input));
+  if (!key) return null;
+  if (PROTECTED_TOKENS.includes(key)) throw new Error(`${TOKEN_REGISTRY[key].symbol} is required by the bot and cannot be removed`);
+  const removed = TOKEN_REGISTRY[key];
+  delete TOKEN_REGISTRY[key];
+  saveTokenRegistry(file);
+  return removed;
+}
+
+/** Returns a warning for every registry entry whose address has no contract code. */
+export async function checkTokenContracts(client: TokenReadClient): Promise<string[]> {
+  const warnings: string[] = [];
+  for (const [key, entry] of Object.entries(TOKEN_REGISTRY)) {
+    if (!entry.address || entry.address.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase()) continue;
+    try {
+      const code = await client.getCode({ address: entry.address as `0x${string}` });
+      if (!code || code === "0x") warnings.push(`${key} (${entry.symbol}): no contract at ${entry.address}`);
+    } catch (err: any) {
+      warnings.push(`${key} (${entry.symbol}): could not check ${entry.address} — ${err.message}`);
+    }
+  }
+  return warnings;
+}
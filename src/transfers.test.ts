@@ -0,0 +1,109 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { OwnWrites, pollTransfers, TransferClient, TransferCursor, TransferWatcherOptions } from "./transfers.js";
+import type { TokenEntry } from "./tokens.js";
+
+const WALLET = "0x1111111111111111111111111111111111111111";
+const RECIPIENT = "0x2222222222222222222222222222222222222222";
+const USDC: TokenEntry = { symbol: "USDC", name: "USD Coin", decimals: 6, address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e" };
+const BUNDLE_TX = `0x${"cd".repeat(32)}`;
+
+// One block holding a single USDC transfer out of the wallet
+function chainWithTransferOut(amount: bigint): TransferClient {
+  const client = {
+    getBlockNumber: async () => 11n,
+    getBalance: async () => 0n,
+    getBlock: async () => ({ timestamp: BigInt(Math.floor(Date.now() / 1000)), transactions: [] }),
+    getLogs: async ({ args }: { args: { from?: string } }) => args.from
+      ? [{ address: USDC.address, args: { from: WALLET, to: RECIPIENT, value: amount }, blockNumber: 11n, logIndex: 0, transactionHash: BUNDLE_TX }]
+      : [],
+  };
+  return client as unknown as TransferClient;
+}
+
+const dataDirs: string[] = [];
+
+after(() => {
+  for (const dir of dataDirs) rmSync(dir, { recursive: true, force: true });
+});
+
+function watch(ownWrites: OwnWrites): { options: TransferWatcherOptions; cursor: TransferCursor; notified: string[] } {
+  const dataDir = mkdtempSync(join(tmpdir(), "bingwa-watch-"));
+  dataDirs.push(dataDir);
+  const cursor = new TransferCursor(join(dataDir, "transfer-watch.json"));
+  cursor.set(WALLET, 10n, 0n);
+  const notified: string[] = [];
+  const options: TransferWatcherOptions = {
+    intervalMs: 1000,
+    maxBlocks: 100n,
+    maxScanBlocks: 10n,
+    dustUsd: 1,
+    getWallet: async () => WALLET,
+    tokens: () => [USDC],
+    usdPrice: async () => 1,
+    ownWrites,
+    describeAddress: async (address) => address,
+    explorerUrl: "https://sepolia.basescan.org",
+    notify: async (message) => {
+      notified.push(message);
+    },
+  };
+  return { options, cursor, notified };
+}
+
+describe("pollTransfers", () => {
+  it("recognises the bot's own send by amount and recipient when only a user operation hash is known", async () => {
+    const ownWrites = new OwnWrites();
+    ownWrites.record({ at: Date.now() - 5000, txHash: `0x${"ab".repeat(32)}`, symbol: "USDC", amount: 5, recipient: RECIPIENT });
+    const { options, cursor, notified } = watch(ownWrites);
+    await pollTransfers(chainWithTransferOut(5_000_000n), cursor, options);
+    assert.deepEqual(notified, []);
+  });
+
+  it("reports a transfer out that doesn't match anything the bot sent", async () => {
+    const ownWrites = new OwnWrites();
+    ownWrites.record({ at: Date.now() - 5000, symbol: "USDC", amount: 5, recipient: RECIPIENT });
+    const { options, cursor, notified } = watch(ownWrites);
+    await pollTransfers(chainWithTransferOut(7_000_000n), cursor, options);
+    assert.equal(notified.length, 1);
+    assert.match(notified[0], /Unexpected transfer out: 7 USDC/);
+  });
+
+  it("expects a write recorded before its action returns, as the bot records it", async () => {
+    const ownWrites = new OwnWrites();
+    let finish!: (txHash: string) => void;
+    const action = new Promise<string>((resolve) => (finish = resolve));
+    const write = ownWrites.record({ at: Date.now(), symbol: "USDC", amount: 5, recipient: RECIPIENT });
+
+    // The transfer is already on chain while the action still waits for its receipt
+    const { options, cursor, notified } = watch(ownWrites);
+    await pollTransfers(chainWithTransferOut(5_000_000n), cursor, options);
+    assert.deepEqual(notified, []);
+    assert.ok(ownWrites.sentSince(Date.now() - 1000));
+
+    finish(BUNDLE_TX);
+    write.settle(await action);
+  });
+
+  it("reports the transfer again once a write that sent nothing is dropped", async () => {
+    const ownWrites = new OwnWrites();
+    ownWrites.record({ at: Date.now() - 5000, symbol: "USDC", amount: 5, recipient: RECIPIENT }).drop();
+    const { options, cursor, notified } = watch(ownWrites);
+    await pollTransfers(chainWithTransferOut(5_000_000n), cursor, options);
+    assert.equal(notified.length, 1);
+  });
+
+  it("uses up a matched write, so a repeat of the same transfer is reported", async () => {
+    const ownWrites = new OwnWrites();
+    ownWrites.record({ at: Date.now() - 5000, symbol: "USDC", amount: 5, recipient: RECIPIENT });
+    const first = watch(ownWrites);
+    await pollTransfers(chainWithTransferOut(5_000_000n), first.cursor, first.options);
+    const second = watch(ownWrites);
+    await pollTransfers(chainWithTransferOut(5_000_000n), second.cursor, second.options);
+    assert.deepEqual(first.notified, []);
+    assert.equal(second.notified.length, 1);
+  });
+});
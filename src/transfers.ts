@@ -0,0 +1,311 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import { formatUnits, parseAbiItem, PublicClient } from "viem";
+import { NATIVE_TOKEN_ADDRESS, TokenEntry } from "./tokens.js";
+
+// ============================================================
+// TRANSFER WATCHER — deposits into and unexpected transfers out of the wallet
+// ============================================================
+const TRANSFER_EVENT = parseAbiItem("event Transfer(address indexed from, address indexed to, uint256 value)");
+
+/** Reads the watcher makes against the active chain. */
+export type TransferClient = Pick<PublicClient, "getBlockNumber" | "getLogs" | "getBlock" | "getBalance">;
+
+export interface WalletTransfer {
+  direction: "in" | "out";
+  symbol: string;
+  amount: number;
+  /** Formatted with the token's decimals, without rounding. */
+  display: string;
+  /** Missing when an ETH balance change couldn't be matched to a transaction. */
+  counterparty?: string;
+  txHash?: string;
+  blockNumber: bigint;
+}
+
+interface WatchState {
+  wallet: string;
+  lastBlock: string;
+  /** ETH balance at lastBlock, in wei, to spot native transfers without scanning every block. */
+  ethBalance: string;
+}
+
+/** The last processed block, persisted so restarts neither miss nor repeat events. */
+export class TransferCursor {
+  private state: WatchState | null = null;
+
+  constructor(private readonly file: string) {
+    try {
+      if (existsSync(file)) this.state = JSON.parse(readFileSync(file, "utf-8"));
+    } catch (err) {
+      console.error("Failed to load transfer watch state:", err);
+    }
+  }
+
+  /** The saved state, unless it belongs to a different wallet. */
+  get(wallet: string): WatchState | null {
+    return this.state && this.state.wallet.toLowerCase() === wallet.toLowerCase() ? this.state : null;
+  }
+
+  set(wallet: string, lastBlock: bigint, ethBalance: bigint): void {
+    this.state = { wallet, lastBlock: lastBlock.toString(), ethBalance: ethBalance.toString() };
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(this.file, JSON.stringify(this.state, null, 2));
+    } catch (err) {
+      console.error("Failed to save transfer watch state:", err);
+    }
+  }
+}
+
+// ============================================================
+// THE BOT'S OWN WRITES
+// ============================================================
+// Transfers can land some time after the action that sent them returns (or times out)
+const OWN_WRITE_WINDOW_MS = 60 * 60 * 1000;
+// Block timestamps and the local clock can disagree by a little
+const CLOCK_SLACK_MS = 2 * 60 * 1000;
+
+interface ExpectedTransfer {
+  symbol: string;
+  amount: number;
+  /** Lowercase address, when the action named one. */
+  recipient?: string;
+  at: number;
+}
+
+/**
+ * What the wallet sent through the bot. Smart wallet actions report the user
+ * operation hash rather than the hash of the bundle transaction that carries
+ * it, so transfers out are also matched on token, amount, recipient and time.
+ */
+/** A recorded write whose outcome isn't known yet. */
+export interface OwnWrite {
+  settle: (txHash?: string) => void;
+  drop: () => void;
+}
+
+export class OwnWrites {
+  private txHashes = new Set<string>();
+  private expected: ExpectedTransfer[] = [];
+  private lastAt = 0;
+
+  /**
+   * Records a write. Call it before the write is sent: its transfer can land, and be polled,
+   * before the action returns. Settle the handle with the transaction hash once there is one,
+   * or drop it if nothing was sent after all.
+   */
+  record(write: { at: number; txHash?: string; symbol?: string; amount?: number; recipient?: string }): OwnWrite {
+    this.lastAt = Math.max(this.lastAt, write.at);
+    if (write.txHash) this.txHashes.add(write.txHash.toLowerCase());
+    let entry: ExpectedTransfer | undefined;
+    if (write.symbol && write.amount !== undefined && Number.isFinite(write.amount)) {
+      const recipient = write.recipient && /^0x[0-9a-fA-F]{40}$/.test(write.recipient) ? write.recipient.toLowerCase() : undefined;
+      entry = { symbol: write.symbol.toUpperCase(), amount: write.amount, recipient, at: write.at };
+      this.expected.push(entry);
+    }
+    return {
+      settle: (txHash) => {
+        if (txHash) this.txHashes.add(txHash.toLowerCase());
+      },
+      drop: () => {
+        this.expected = this.expected.filter((e) => e !== entry);
+      },
+    };
+  }
+
+  /** True when the bot sent a transaction at or after the given time. */
+  sentSince(since: number): boolean {
+    return this.lastAt >= since;
+  }
+
+  /** True when the transfer came from one of the bot's writes. A matched write is used up, so a second identical transfer is still reported. */
+  claim(transfer: WalletTransfer, blockTime: number): boolean {
+    if (transfer.txHash && this.txHashes.has(transfer.txHash.toLowerCase())) return true;
+    if (transfer.direction !== "out") return false;
+    this.expected = this.expected.filter((e) => Date.now() - e.at < OWN_WRITE_WINDOW_MS);
+    const index = this.expected.findIndex((e) =>
+      e.symbol === transfer.symbol.toUpperCase() &&
+      Math.abs(e.amount - transfer.amount) <= Math.abs(e.amount) * 1e-9 &&
+      (!e.recipient || !transfer.counterparty || e.recipient === transfer.counterparty.toLowerCase()) &&
+      blockTime >= e.at - CLOCK_SLACK_MS,
+    );
+    if (index < 0) return false;
+    this.expected.splice(index, 1);
+    return true;
+  }
+}
+
+export interface TransferWatcherOptions {
+  intervalMs: number;
+  /** Most blocks read per poll; a longer gap is caught up over several polls. */
+  maxBlocks: bigint;
+  /** ETH balance changes over at most this many blocks are matched to transactions block by block. */
+  maxScanBlocks: bigint;
+  /** Transfers worth less than this many USD are ignored. Tokens without a price are always reported. */
+  dustUsd: number;
+  getWallet: () => Promise<string>;
+  tokens: () => TokenEntry[];
+  usdPrice: (token: TokenEntry) => Promise<number | null>;
+  /** The bot's own writes; their transfers are expected, and they explain ETH balance drops (value or gas). */
+  ownWrites: OwnWrites;
+  describeAddress: (address: string) => Promise<string>;
+  explorerUrl: string;
+  notify: (message: string) => Promise<void>;
+}
+
+export async function formatTransfer(transfer: WalletTransfer, options: Pick<TransferWatcherOptions, "describeAddress" | "explorerUrl">): Promise<string> {
+  const heading = transfer.direction === "in"
+    ? `📥 Received ${transfer.display} ${transfer.symbol}`
+    : `📤 Unexpected transfer out: ${transfer.display} ${transfer.symbol}`;
+  const party = transfer.counterparty
+    ? `\n${transfer.direction === "in" ? "From" : "To"}: ${await options.describeAddress(transfer.counterparty)}`
+    : "\nNo matching transaction found — check the wallet on the explorer";
+  const tx = transfer.txHash ? `\nTx: ${options.explorerUrl}/tx/${transfer.txHash}` : "";
+  return `${heading}${party}${tx}`;
+}
+
+async function tokenTransfers(
+  client: TransferClient,
+  wallet: `0x${string}`,
+  tokens: TokenEntry[],
+  fromBlock: bigint,
+  toBlock: bigint,
+): Promise<Array<WalletTransfer & { token: TokenEntry }>> {
+  const byAddress = new Map(tokens.map((t) => [t.address.toLowerCase(), t]));
+  if (byAddress.size === 0) return [];
+  const address = [...byAddress.values()].map((t) => t.address as `0x${string}`);
+  const [incoming, outgoing] = await Promise.all([
+    client.getLogs({ address, event: TRANSFER_EVENT, args: { to: wallet }, fromBlock, toBlock }),
+    client.getLogs({ address, event: TRANSFER_EVENT, args: { from: wallet }, fromBlock, toBlock }),
+  ]);
+  return [...incoming, ...outgoing]
+    .sort((a, b) => Number((a.blockNumber ?? 0n) - (b.blockNumber ?? 0n)) || (a.logIndex ?? 0) - (b.logIndex ?? 0))
+    .flatMap((log) => {
+      const token = byAddress.get(log.address.toLowerCase());
+      const { from, to, value } = log.args;
+      // Self-transfers and zero-value spoofs carry no information
+      if (!token || !from || !to || !value || from.toLowerCase() === to.toLowerCase()) return [];
+      const direction = to.toLowerCase() === wallet.toLowerCase() ? "in" : "out";
+      const display = formatUnits(value, token.decimals);
+      return [{
+        token,
+        direction,
+        symbol: token.symbol,
+        amount: parseFloat(display),
+        display,
+        counterparty: direction === "in" ? from : to,
+        txHash: log.transactionHash ?? undefined,
+        blockNumber: log.blockNumber ?? toBlock,
+      }];
+    });
+}
+
+// Native ETH has no events. Plain sends into the wallet show up as transactions to it;
+// a smart wallet's own sends go through the entry point and only show as a balance drop.
+async function ethTransfers(
+  client: TransferClient,
+  wallet: `0x${string}`,
+  fromBlock: bigint,
+  toBlock: bigint,
+  delta: bigint,
+  maxScanBlocks: bigint,
+): Promise<WalletTransfer[]> {
+  const found: WalletTransfer[] = [];
+  let matched = 0n;
+  if (delta > 0n && toBlock - fromBlock < maxScanBlocks) {
+    for (let n = fromBlock; n <= toBlock; n++) {
+      const block = await client.getBlock({ blockNumber: n, includeTransactions: true });
+      for (const tx of block.transactions) {
+        if (tx.to?.toLowerCase() !== wallet.toLowerCase() || tx.value === 0n) continue;
+        matched += tx.value;
+        const display = formatUnits(tx.value, 18);
+        found.push({ direction: "in", symbol: "ETH", amount: parseFloat(display), display, counterparty: tx.from, txHash: tx.hash, blockNumber: n });
+      }
+    }
+  }
+  const unexplained = delta - matched;
+  if (unexplained !== 0n) {
+    const display = formatUnits(unexplained < 0n ? -unexplained : unexplained, 18);
+    found.push({ direction: unexplained > 0n ? "in" : "out", symbol: "ETH", amount: parseFloat(display), display, blockNumber: toBlock });
+  }
+  return found;
+}
+
+/**
+ * Reads one batch of blocks after the cursor and reports what moved. The
+ * first run starts at the current block rather than replaying history.
+ */
+export async function pollTransfers(
+  client: TransferClient,
+  cursor: TransferCursor,
+  options: TransferWatcherOptions,
+): Promise<void> {
+  const wallet = (await options.getWallet()) as `0x${string}`;
+  if (!wallet) return;
+  const latest = await client.getBlockNumber();
+  const state = cursor.get(wallet);
+  if (!state) {
+    cursor.set(wallet, latest, await client.getBalance({ address: wallet, blockNumber: latest }));
+    console.log(`👀 Watching ${wallet} for transfers from block ${latest}`);
+    return;
+  }
+
+  const fromBlock = BigInt(state.lastBlock) + 1n;
+  if (fromBlock > latest) return;
+  const toBlock = latest - fromBlock >= options.maxBlocks ? fromBlock + options.maxBlocks - 1n : latest;
+  const tokens = options.tokens().filter((t) => t.address && t.address.toLowerCase() !== NATIVE_TOKEN_ADDRESS.toLowerCase());
+  const ethBalance = await client.getBalance({ address: wallet, blockNumber: toBlock });
+  const blockTimes = new Map<bigint, number>();
+  const blockTime = async (blockNumber: bigint) => {
+    if (!blockTimes.has(blockNumber)) blockTimes.set(blockNumber, Number((await client.getBlock({ blockNumber })).timestamp) * 1000);
+    return blockTimes.get(blockNumber)!;
+  };
+  const startedAt = await blockTime(fromBlock);
+
+  const transfers: WalletTransfer[] = [];
+  for (const transfer of await tokenTransfers(client, wallet, tokens, fromBlock, toBlock)) {
+    if (!options.ownWrites.claim(transfer, await blockTime(transfer.blockNumber))) transfers.push(transfer);
+  }
+  for (const transfer of await ethTransfers(client, wallet, fromBlock, toBlock, ethBalance - BigInt(state.ethBalance), options.maxScanBlocks)) {
+    // Outgoing ETH can't be tied to a transaction, so any drop while the bot was sending is put down to it
+    const own = transfer.txHash
+      ? options.ownWrites.claim(transfer, await blockTime(transfer.blockNumber))
+      : transfer.direction === "out" && options.ownWrites.sentSince(startedAt);
+    if (!own) transfers.push(transfer);
+  }
+
+  const prices = new Map<string, number | null>();
+  const registry = options.tokens();
+  for (const transfer of transfers) {
+    const token = registry.find((t) => t.symbol === transfer.symbol);
+    if (token && !prices.has(token.symbol)) prices.set(token.symbol, await options.usdPrice(token).catch(() => null));
+    const price = prices.get(transfer.symbol);
+    if (price != null && transfer.amount * price < options.dustUsd) continue;
+
+    console.log(`${transfer.direction === "in" ? "📥" : "📤"} ${transfer.display} ${transfer.symbol} ${transfer.txHash ?? ""}`);
+    await options.notify(await formatTransfer(transfer, options));
+  }
+
+  // Saved only after every notification went out, so a crash repeats at most this batch
+  cursor.set(wallet, toBlock, ethBalance);
+}
+
+export function startTransferWatcher(client: TransferClient, cursor: TransferCursor, options: TransferWatcherOptions): NodeJS.Timeout {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await pollTransfers(client, cursor, options);
+    } catch (err) {
+      console.error("Transfer watcher error:", err);
+    } finally {
+      running = false;
+    }
+  };
+  const timer = setInterval(tick, options.intervalMs);
+  timer.unref();
+  void tick();
+  return timer;
+}
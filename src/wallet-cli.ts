@@ -0,0 +1,163 @@
+import { isAddress, getAddress } from "viem";
+import { join, dirname } from "path";
+import { fileURLToPath } from "url";
+import "dotenv/config";
+import { getNetwork } from "./network.js";
+import { WalletData, walletFromEnv, readWalletFile, writeWalletFile, configureWallet } from "./wallet.js";
+
+// ============================================================
+// WALLET CLI — inspect, verify and persist the bot's CDP wallet
+// ============================================================
+// Usage: npm run wallet -- <show|verify|export|import|init> [--file path] [--force]
+//        npm run wallet -- import --owner 0x... --address 0x... [--force]
+// Every command prints one JSON object to stdout and exits non-zero on failure.
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const DEFAULT_WALLET_FILE = join(__dirname, "..", "wallet-data.json");
+
+interface CliArgs {
+  command: string;
+  file: string;
+  force: boolean;
+  owner?: string;
+  address?: string;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { command: argv[0] ?? "", file: DEFAULT_WALLET_FILE, force: false };
+  for (let i = 1; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === "--force") args.force = true;
+    else if (flag === "--file") args.file = argv[++i];
+    else if (flag === "--owner") args.owner = argv[++i];
+    else if (flag === "--address") args.address = argv[++i];
+    else throw new Error(`Unknown argument: ${flag}`);
+  }
+  return args;
+}
+
+function sameWallet(a: WalletData, b: WalletData): boolean {
+  return a.ownerAddress.toLowerCase() === b.ownerAddress.toLowerCase() &&
+    a.smartWalletAddress.toLowerCase() === b.smartWalletAddress.toLowerCase();
+}
+
+// Refuses to replace a different wallet in the file unless --force was given
+function writeChecked(file: string, data: WalletData, force: boolean): { written: boolean; replaced?: WalletData } {
+  const existing = readWalletFile(file);
+  if (existing && sameWallet(existing, data)) return { written: false };
+  if (existing && !force) {
+    throw new Error(`${file} already holds wallet ${existing.smartWalletAddress}; pass --force to overwrite it`);
+  }
+  writeWalletFile(file, data);
+  return { written: true, replaced: existing ?? undefined };
+}
+
+function activeWallet(file: string): { source: "env" | "file"; wallet: WalletData } | null {
+  const fromEnv = walletFromEnv();
+  if (fromEnv) return { source: "env", wallet: fromEnv };
+  const fromFile = readWalletFile(file);
+  return fromFile ? { source: "file", wallet: fromFile } : null;
+}
+
+async function show(args: CliArgs) {
+  const active = activeWallet(args.file);
+  return {
+    ok: true,
+    network: getNetwork().id,
+    source: active?.source ?? "none",
+    wallet: active?.wallet ?? null,
+    env: walletFromEnv(),
+    file: { path: args.file, wallet: readWalletFile(args.file) },
+  };
+}
+
+async function verify(args: CliArgs) {
+  const checks: Array<{ check: string; ok: boolean; detail: string }> = [];
+  const fromEnv = walletFromEnv();
+  const partialEnv = !fromEnv && (!!process.env.OWNER_ADDRESS || !!process.env.SMART_WALLET_ADDRESS);
+  checks.push({
+    check: "env",
+    ok: !partialEnv,
+    detail: fromEnv ? "OWNER_ADDRESS and SMART_WALLET_ADDRESS set" : partialEnv ? "only one of OWNER_ADDRESS / SMART_WALLET_ADDRESS is set" : "not set",
+  });
+
+  const fromFile = readWalletFile(args.file);
+  if (fromEnv && fromFile) {
+    const agree = sameWallet(fromEnv, fromFile);
+    checks.push({ check: "env-matches-file", ok: agree, detail: agree ? "env and file agree" : `env has ${fromEnv.smartWalletAddress}, file has ${fromFile.smartWalletAddress}` });
+  }
+
+  const active = fromEnv ?? fromFile;
+  if (!active) {
+    checks.push({ check: "cdp", ok: false, detail: "no wallet data to verify; run init or import" });
+  } else {
+    try {
+      const exported = await (await configureWallet(getNetwork().id, active)).exportWallet();
+      const matches = sameWallet(active, { ownerAddress: exported.ownerAddress, smartWalletAddress: exported.address });
+      checks.push({ check: "cdp", ok: matches, detail: matches ? `CDP returned ${exported.address}` : `CDP returned ${exported.address} (owner ${exported.ownerAddress})` });
+    } catch (err: any) {
+      checks.push({ check: "cdp", ok: false, detail: err.message });
+    }
+  }
+  return { ok: checks.every((c) => c.ok), network: getNetwork().id, wallet: active, checks };
+}
+
+async function exportWallet(args: CliArgs) {
+  const active = activeWallet(args.file);
+  // Without owner/address CDP would create a brand-new wallet, which is never what export means
+  if (!active) throw new Error("No wallet data in env or file; run init to create a wallet or import to record one");
+  const exported = await (await configureWallet(getNetwork().id, active.wallet)).exportWallet();
+  const data: WalletData = { ownerAddress: exported.ownerAddress, smartWalletAddress: exported.address };
+  return { ok: true, network: getNetwork().id, source: active.source, wallet: data, name: exported.name, file: args.file, ...writeChecked(args.file, data, args.force) };
+}
+
+async function importWallet(args: CliArgs) {
+  const owner = args.owner ?? process.env.OWNER_ADDRESS;
+  const address = args.address ?? process.env.SMART_WALLET_ADDRESS;
+  if (!owner || !address) throw new Error("import needs --owner and --address (or OWNER_ADDRESS and SMART_WALLET_ADDRESS)");
+  if (!isAddress(owner) || !isAddress(address)) throw new Error("--owner and --address must be valid addresses");
+  const data: WalletData = { ownerAddress: getAddress(owner), smartWalletAddress: getAddress(address) };
+  return { ok: true, wallet: data, file: args.file, ...writeChecked(args.file, data, args.force) };
+}
+
+async function init(args: CliArgs) {
+  const active = activeWallet(args.file);
+  if (active && !args.force) {
+    throw new Error(`A wallet already exists (${active.source}: ${active.wallet.smartWalletAddress}); pass --force to create another`);
+  }
+  const exported = await (await configureWallet(getNetwork().id, null)).exportWallet();
+  const data: WalletData = { ownerAddress: exported.ownerAddress, smartWalletAddress: exported.address };
+  const result = writeChecked(args.file, data, args.force);
+  return {
+    ok: true,
+    network: getNetwork().id,
+    wallet: data,
+    file: args.file,
+    ...result,
+    ...(walletFromEnv() ? { warning: "OWNER_ADDRESS / SMART_WALLET_ADDRESS are set and take precedence over the file" } : {}),
+  };
+}
+
+const COMMANDS: Record<string, (args: CliArgs) => Promise<Record<string, unknown>>> = {
+  show,
+  verify,
+  export: exportWallet,
+  import: importWallet,
+  init,
+};
+
+async function main() {
+  let output: Record<string, unknown>;
+  try {
+    const args = parseArgs(process.argv.slice(2));
+    const command = COMMANDS[args.command];
+    if (!command) throw new Error(`Unknown command "${args.command}". Use one of: ${Object.keys(COMMANDS).join(", ")}`);
+    output = await command(args);
+  } catch (err: any) {
+    output = { ok: false, error: err.message };
+  }
+  console.log(JSON.stringify(output, null, 2));
+  process.exit(output.ok ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,131 @@
+import { CdpSmartWalletProvider, type CdpSmartWalletProviderConfig } from "@coinbase/agentkit";
+import { readFileSync, writeFileSync, existsSync, mkdirSync } from "fs";
+import { dirname } from "path";
+import type { NetworkId } from "./network.js";
+
+// ============================================================
+// WALLET PERSISTENCE — shared by the bot and the wallet CLI
+// ============================================================
+export interface WalletData {
+  ownerAddress: string;
+  smartWalletAddress: string;
+}
+
+/** OWNER_ADDRESS / SMART_WALLET_ADDRESS, when both are set. */
+export function walletFromEnv(): WalletData | null {
+  if (!process.env.OWNER_ADDRESS || !process.env.SMART_WALLET_ADDRESS) return null;
+  return {
+    ownerAddress: process.env.OWNER_ADDRESS,
+    smartWalletAddress: process.env.SMART_WALLET_ADDRESS,
+  };
+}
+
+/** The wallet file's contents; throws when the file exists but can't be parsed. */
+export function readWalletFile(file: string): WalletData | null {
+  if (!existsSync(file)) return null;
+  const data = JSON.parse(readFileSync(file, "utf-8"));
+  if (typeof data?.ownerAddress !== "string" || typeof data?.smartWalletAddress !== "string") {
+    throw new Error(`${file} is missing ownerAddress or smartWalletAddress`);
+  }
+  return { ownerAddress: data.ownerAddress, smartWalletAddress: data.smartWalletAddress };
+}
+
+export function writeWalletFile(file: string, data: WalletData): void {
+  writeFileSync(file, JSON.stringify(data, null, 2));
+}
+
+/** Env vars win over the file, so a Railway deploy never falls back to a stale local file. */
+export function loadWalletData(file: string): WalletData | null {
+  const fromEnv = walletFromEnv();
+  if (fromEnv) {
+    console.log("📂 Loading wallet from env vars");
+    return fromEnv;
+  }
+  try {
+    const data = readWalletFile(file);
+    if (data) {
+      console.log("📂 Loading wallet from file:", data.smartWalletAddress);
+      return data;
+    }
+  } catch {}
+  return null;
+}
+
+export function saveWalletData(file: string, data: WalletData): void {
+  try {
+    writeWalletFile(file, data);
+    console.log("💾 Wallet data saved to", file);
+    console.log("   Owner:", data.ownerAddress);
+    console.log("   Smart Wallet:", data.smartWalletAddress);
+    console.log("\n⚠️  Add these to your Railway env vars for persistence:");
+    console.log(`   OWNER_ADDRESS=${data.ownerAddress}`);
+    console.log(`   SMART_WALLET_ADDRESS=${data.smartWalletAddress}`);
+  } catch (err) {
+    console.error("Failed to save wallet data:", err);
+  }
+}
+
+/**
+ * Connects to the CDP smart wallet. With saved data the existing wallet is
+ * reloaded; without it CDP creates a new one, so only pass null on purpose.
+ */
+export async function configureWallet(networkId: NetworkId, saved: WalletData | null): Promise<CdpSmartWalletProvider> {
+  const config: CdpSmartWalletProviderConfig = {
+    apiKeyId: process.env.CDP_API_KEY_ID!,
+    apiKeySecret: process.env.CDP_API_KEY_SECRET!,
+    walletSecret: process.env.CDP_WALLET_SECRET!,
+    networkId,
+  };
+  if (saved) {
+    config.owner = saved.ownerAddress as `0x${string}`;
+    config.address = saved.smartWalletAddress as `0x${string}`;
+  }
+  return CdpSmartWalletProvider.configureWithWallet(config);
+}
+
+// ============================================================
+// PER-CHAT WALLETS — WALLET_MODE=per-chat
+// ============================================================
+export interface ChatWalletData extends WalletData {
+  createdAt: string;
+}
+
+/** Which smart wallet belongs to which chat, kept next to wallet-data.json. */
+export class ChatWalletStore {
+  private wallets: Record<string, ChatWalletData> = {};
+
+  constructor(private readonly file: string) {
+    try {
+      if (existsSync(file)) {
+        this.wallets = JSON.parse(readFileSync(file, "utf-8"));
+        console.log(`👛 Loaded ${Object.keys(this.wallets).length} chat wallet(s)`);
+      }
+    } catch (err) {
+      console.error("Failed to load chat wallets:", err);
+    }
+  }
+
+  get(chatId: string): ChatWalletData | undefined {
+    return this.wallets[chatId];
+  }
+
+  set(chatId: string, data: WalletData): ChatWalletData {
+    const entry: ChatWalletData = { ...data, createdAt: new Date().toISOString() };
+    this.wallets[chatId] = entry;
+    this.save();
+    return entry;
+  }
+
+  all(): Array<{ chatId: string } & ChatWalletData> {
+    return Object.entries(this.wallets).map(([chatId, data]) => ({ chatId, ...data }));
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(dirname(this.file), { recursive: true });
+      writeFileSync(this.file, JSON.stringify(this.wallets, null, 2));
+    } catch (err) {
+      console.error("Failed to save chat wallets:", err);
+    }
+  }
+}